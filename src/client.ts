@@ -0,0 +1,67 @@
+import { treaty } from '@elysiajs/eden';
+import type { App } from './index';
+
+/**
+ * Typed API client generated from the Elysia app type
+ *
+ * Every route is available with typed params, query, body and responses:
+ *   const { data, error } = await client.api.posts({ id }).get();
+ * `data` is the success envelope; `error.value` is the problem details body
+ * for the returned status.
+ *
+ * Sessions are handled automatically: browsers keep the session cookie
+ * (requests use `credentials: 'include'`), and the token sent by signup/login
+ * is replayed as `Authorization: Bearer <token>` for other runtimes.
+ */
+
+export interface ClientOptions {
+  // Token to start with, e.g. restored from storage
+  token?: string | null;
+  // Called whenever the session token changes so it can be persisted
+  onTokenChange?: (token: string | null) => void;
+  // Custom fetch implementation, e.g. `app.handle` for in-process calls
+  fetcher?: typeof fetch;
+}
+
+export const createClient = (baseUrl: string, options: ClientOptions = {}) => {
+  let token = options.token ?? null;
+
+  const setToken = (next: string | null) => {
+    if (next === token) return;
+    token = next;
+    options.onTokenChange?.(next);
+  };
+
+  const api = treaty<App>(baseUrl, {
+    fetcher: options.fetcher,
+    fetch: {
+      credentials: 'include',
+    },
+    headers: () => (token ? { authorization: `Bearer ${token}` } : undefined),
+    onResponse: (response) => {
+      // Issued by signup/login through the Better-Auth bearer plugin
+      const issuedToken = response.headers.get('set-auth-token');
+      if (issuedToken) {
+        setToken(issuedToken);
+        return;
+      }
+
+      // Logged out, expired or revoked; a wrong 2FA code (401) leaves the session alone
+      const { pathname } = new URL(response.url || baseUrl, baseUrl);
+      const loggedOut = response.ok && pathname.endsWith('/auth/logout');
+      const rejectedCode = pathname.includes('/auth/two-factor/verify');
+      if (loggedOut || (response.status === 401 && !rejectedCode)) {
+        setToken(null);
+      }
+    },
+  });
+
+  return {
+    api,
+    getToken: () => token,
+    setToken,
+  };
+};
+
+export type ApiClient = ReturnType<typeof createClient>;
+export type { App };
@@ -1,6 +1,20 @@
-import { Pool, type PoolConfig } from 'pg';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { Pool, type PoolClient, type PoolConfig } from 'pg';
+import type { Logger } from 'drizzle-orm';
 import { drizzle, type NodePgDatabase } from 'drizzle-orm/node-postgres';
 import * as schema from '../db/schema';
+import type { Attributes } from '@opentelemetry/api';
+import { ATTR_DB_NAMESPACE, ATTR_SERVER_ADDRESS, ATTR_SERVER_PORT } from '@opentelemetry/semantic-conventions';
+import { logConfig, logger } from '../lib/logger';
+import {
+  dbCircuitBreakerState,
+  dbPoolConnections,
+  dbPoolMaxConnections,
+  dbQueryDuration,
+  dbReadsTotal,
+  dbReplicaLagSeconds,
+} from '../lib/metrics';
+import { endSpan, startQuerySpan } from '../lib/tracing';
 
 /**
  * Database configuration interface
@@ -16,10 +30,166 @@ interface DatabaseConfig {
   connectionTimeoutMillis?: number;
 }
 
+/**
+ * Circuit breaker states
+ * - closed: pool is healthy and serves traffic
+ * - open: pool failed repeatedly; reads are routed elsewhere until probes succeed
+ * - half-open: probes started succeeding; closes after enough consecutive successes
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Snapshot of a circuit breaker for health reporting
+ */
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  lastError: string | null;
+}
+
+/**
+ * Circuit breaker configuration
+ */
+const circuitConfig = {
+  // Consecutive connection errors before the breaker opens
+  failureThreshold: Number(process.env.DB_CIRCUIT_FAILURE_THRESHOLD) || 5,
+  // Consecutive successful probes before an open breaker closes again
+  recoveryProbes: Number(process.env.DB_CIRCUIT_RECOVERY_PROBES) || 2,
+  // Interval between background probes of pools with an open breaker
+  probeIntervalMs: Number(process.env.DB_CIRCUIT_PROBE_INTERVAL_MS) || 5000,
+};
+
+/**
+ * Create a circuit breaker tracking connection health of a pool
+ */
+const createCircuitBreaker = (name: string) => {
+  let state: CircuitState = 'closed';
+  let consecutiveFailures = 0;
+  let consecutiveProbeSuccesses = 0;
+  let openedAt: Date | null = null;
+  let lastError: string | null = null;
+
+  const transition = (next: CircuitState) => {
+    if (state === next) return;
+    logger.warn('Circuit breaker state changed', { breaker: name, from: state, to: next });
+    state = next;
+  };
+
+  return {
+    get state() {
+      return state;
+    },
+
+    isClosed: () => state === 'closed',
+
+    /**
+     * Record a successful connection from regular traffic
+     */
+    recordSuccess: () => {
+      if (state === 'closed') {
+        consecutiveFailures = 0;
+      }
+    },
+
+    /**
+     * Record a connection error; opens the breaker past the threshold
+     */
+    recordFailure: (error: unknown) => {
+      lastError = error instanceof Error ? error.message : String(error);
+      consecutiveFailures += 1;
+
+      if (state === 'half-open' || (state === 'closed' && consecutiveFailures >= circuitConfig.failureThreshold)) {
+        consecutiveProbeSuccesses = 0;
+        openedAt = new Date();
+        transition('open');
+      }
+    },
+
+    /**
+     * Record a successful background probe; closes the breaker after enough successes
+     */
+    recordProbeSuccess: () => {
+      if (state === 'closed') return;
+
+      consecutiveProbeSuccesses += 1;
+      if (consecutiveProbeSuccesses >= circuitConfig.recoveryProbes) {
+        consecutiveFailures = 0;
+        consecutiveProbeSuccesses = 0;
+        openedAt = null;
+        transition('closed');
+      } else {
+        transition('half-open');
+      }
+    },
+
+    status: (): CircuitBreakerStatus => ({
+      state,
+      consecutiveFailures,
+      openedAt: openedAt?.toISOString() ?? null,
+      lastError,
+    }),
+  };
+};
+
+type CircuitBreaker = ReturnType<typeof createCircuitBreaker>;
+
+/**
+ * Metric labels of a pool; `node` is the replica name, or primary
+ */
+interface PoolLabels {
+  pool: 'primary' | 'replica';
+  node: string;
+}
+
+// Clients whose query() already reports its duration
+const instrumentedClients = new WeakSet<PoolClient>();
+
+/**
+ * Time and trace every query a pooled client runs
+ * Both pool.query() and transactions run their queries on clients from connect()
+ */
+const instrumentClient = (client: PoolClient, labels: PoolLabels, spanAttributes: Attributes): void => {
+  if (instrumentedClients.has(client)) return;
+  instrumentedClients.add(client);
+
+  const query = client.query.bind(client) as (...args: unknown[]) => unknown;
+  client.query = ((...args: unknown[]) => {
+    // Submittables (cursors, streams) report completion through events; leave them untimed
+    if (typeof (args[0] as { submit?: unknown } | undefined)?.submit === 'function') {
+      return query(...args);
+    }
+
+    const sql = typeof args[0] === 'string' ? args[0] : ((args[0] as { text?: string } | undefined)?.text ?? '');
+    const span = startQuerySpan(sql, spanAttributes);
+    const end = dbQueryDuration.startTimer({ ...labels });
+    const finish = (error?: unknown) => {
+      end();
+      endSpan(span, error);
+    };
+
+    const callback = args[args.length - 1];
+    if (typeof callback === 'function') {
+      args[args.length - 1] = (...results: unknown[]) => {
+        finish(results[0]);
+        callback(...results);
+      };
+      return query(...args);
+    }
+
+    const result = query(...args);
+    if (result instanceof Promise) {
+      result.then(() => finish(), finish);
+    }
+    return result;
+  }) as PoolClient['query'];
+};
+
 /**
  * Create a PostgreSQL pool with configuration
+ * Connection attempts and idle client errors are reported to the circuit breaker
  */
-const createPool = (config: DatabaseConfig): Pool => {
+const createPool = (config: DatabaseConfig, breaker: CircuitBreaker, labels: PoolLabels): Pool => {
   const poolConfig: PoolConfig = {
     host: config.host,
     port: config.port,
@@ -35,7 +205,52 @@ const createPool = (config: DatabaseConfig): Pool => {
     } : false,
   };
 
-  return new Pool(poolConfig);
+  const pool = new Pool(poolConfig);
+
+  // Query span attributes; the pool role and node match the metric labels
+  const spanAttributes: Attributes = {
+    [ATTR_DB_NAMESPACE]: config.database,
+    [ATTR_SERVER_ADDRESS]: config.host,
+    [ATTR_SERVER_PORT]: config.port,
+    'db.pool.role': labels.pool,
+    'db.pool.node': labels.node,
+  };
+
+  // pool.query() and drizzle transactions both acquire clients through connect()
+  const connect = pool.connect.bind(pool);
+  pool.connect = ((callback?: Parameters<Pool['connect']>[0]) => {
+    if (callback) {
+      return connect((err, client, done) => {
+        if (err) {
+          breaker.recordFailure(err);
+        } else {
+          breaker.recordSuccess();
+          if (client) instrumentClient(client, labels, spanAttributes);
+        }
+        callback(err, client, done);
+      });
+    }
+
+    return connect().then(
+      (client) => {
+        breaker.recordSuccess();
+        instrumentClient(client, labels, spanAttributes);
+        return client;
+      },
+      (error: unknown) => {
+        breaker.recordFailure(error);
+        throw error;
+      }
+    );
+  }) as Pool['connect'];
+
+  // Errors on idle clients (e.g. backend terminated) count as connection failures
+  pool.on('error', (error) => {
+    logger.error('Idle database client error', { error });
+    breaker.recordFailure(error);
+  });
+
+  return pool;
 };
 
 /**
@@ -50,75 +265,630 @@ const primaryConfig: DatabaseConfig = {
 };
 
 /**
- * Replica database pool configuration (for reads)
+ * Replica entry parsed from configuration
  */
-const replicaConfig: DatabaseConfig = {
-  host: process.env.DB_REPLICA_HOST || '10.100.0.20',
-  port: Number(process.env.DB_REPLICA_PORT) || 5001,
-  database: process.env.DB_NAME || 'demo_db',
-  user: process.env.DB_USER || 'postgres',
-  password: process.env.DB_PASSWORD || '',
+interface ReplicaConfig extends DatabaseConfig {
+  name: string;
+  weight: number;
+}
+
+/**
+ * Parse replica list from DB_REPLICAS ("host:port:weight,...")
+ * Falls back to the single DB_REPLICA_HOST/DB_REPLICA_PORT replica when unset
+ */
+const parseReplicaConfigs = (): ReplicaConfig[] => {
+  const shared = {
+    database: process.env.DB_NAME || 'demo_db',
+    user: process.env.DB_USER || 'postgres',
+    password: process.env.DB_PASSWORD || '',
+  };
+
+  const list = process.env.DB_REPLICAS?.trim();
+  if (!list) {
+    const host = process.env.DB_REPLICA_HOST || '10.100.0.20';
+    const port = Number(process.env.DB_REPLICA_PORT) || 5001;
+    return [{ ...shared, name: `${host}:${port}`, host, port, weight: 1 }];
+  }
+
+  return list.split(',').map((entry) => {
+    const [host, rawPort, rawWeight] = entry.trim().split(':');
+    const port = rawPort ? Number(rawPort) : 5432;
+    const weight = rawWeight ? Number(rawWeight) : 1;
+
+    if (!host || !Number.isInteger(port) || port <= 0 || !Number.isFinite(weight) || weight <= 0) {
+      throw new Error(`Invalid DB_REPLICAS entry: "${entry}" (expected host:port:weight)`);
+    }
+
+    return { ...shared, name: `${host}:${port}`, host, port, weight };
+  });
+};
+
+/**
+ * Replay lag in seconds, evaluated on a replica
+ * Lag is zero when everything received has been replayed (idle primary)
+ */
+const REPLICA_LAG_SECONDS_SQL = `CASE
+  WHEN pg_last_wal_receive_lsn() = pg_last_wal_replay_lsn() THEN 0
+  ELSE COALESCE(EXTRACT(EPOCH FROM now() - pg_last_xact_replay_timestamp()), 0)
+END`;
+
+/**
+ * Replica selection strategies
+ */
+export type ReplicaStrategy = 'round-robin' | 'weighted' | 'least-connections';
+
+const replicaStrategies: ReplicaStrategy[] = ['round-robin', 'weighted', 'least-connections'];
+
+const parseReplicaStrategy = (): ReplicaStrategy => {
+  const strategy = process.env.DB_REPLICA_STRATEGY || 'weighted';
+  if (!replicaStrategies.includes(strategy as ReplicaStrategy)) {
+    throw new Error(`Invalid DB_REPLICA_STRATEGY: "${strategy}" (expected ${replicaStrategies.join(', ')})`);
+  }
+  return strategy as ReplicaStrategy;
+};
+
+/**
+ * Drizzle query logger; each statement is tagged with the database it ran on
+ * and, through the logger, with the request that issued it
+ */
+const createQueryLogger = (target: 'primary' | 'replica', node: string): Logger | false => {
+  if (!logConfig.queries) return false;
+
+  return {
+    logQuery: (query, params) => {
+      // Parameters can hold password hashes and tokens; only their count is logged
+      logger.debug('query', { db: target, node, sql: query, params: params.length });
+    },
+  };
 };
 
-// Initialize connection pools
-export const primaryPool = createPool(primaryConfig);
-export const replicaPool = createPool(replicaConfig);
+/**
+ * A streaming replica with its own pool, Drizzle instance and circuit breaker
+ */
+export interface ReplicaNode {
+  name: string;
+  weight: number;
+  pool: Pool;
+  db: NodePgDatabase<typeof schema>;
+  breaker: CircuitBreaker;
+  // Cached replay lag measurement
+  lagSample: { lagMs: number; measuredAt: number } | null;
+  // Lag query in flight, shared by concurrent callers once the sample expires
+  lagCheck: Promise<number> | null;
+  // Running weight for smooth weighted round-robin
+  currentWeight: number;
+}
+
+const createReplicaNode = (config: ReplicaConfig): ReplicaNode => {
+  const breaker = createCircuitBreaker(`replica ${config.name}`);
+  const pool = createPool(config, breaker, { pool: 'replica', node: config.name });
+
+  return {
+    name: config.name,
+    weight: config.weight,
+    pool,
+    db: drizzle(pool, { schema, logger: createQueryLogger('replica', config.name) }),
+    breaker,
+    lagSample: null,
+    lagCheck: null,
+    currentWeight: 0,
+  };
+};
+
+// Initialize primary pool and replica set
+const primaryBreaker = createCircuitBreaker('primary');
+const replicaStrategy = parseReplicaStrategy();
+
+export const primaryPool = createPool(primaryConfig, primaryBreaker, { pool: 'primary', node: 'primary' });
+export const replicaNodes: ReplicaNode[] = parseReplicaConfigs().map(createReplicaNode);
+
+// First replica, kept for callers that address a single replica directly
+export const replicaPool = replicaNodes[0]!.pool;
 
 // Initialize Drizzle instances
-export const dbPrimary: NodePgDatabase<typeof schema> = drizzle(primaryPool, { schema });
-export const dbReplica: NodePgDatabase<typeof schema> = drizzle(replicaPool, { schema });
+export const dbPrimary: NodePgDatabase<typeof schema> = drizzle(primaryPool, {
+  schema,
+  logger: createQueryLogger('primary', 'primary'),
+});
+export const dbReplica: NodePgDatabase<typeof schema> = replicaNodes[0]!.db;
+
+/**
+ * Probe pools whose circuit breaker is not closed
+ */
+const probeOpenCircuits = async (): Promise<void> => {
+  const targets: Array<[Pool, CircuitBreaker]> = [
+    [primaryPool, primaryBreaker],
+    ...replicaNodes.map((node): [Pool, CircuitBreaker] => [node.pool, node.breaker]),
+  ];
+
+  await Promise.all(
+    targets
+      .filter(([, breaker]) => !breaker.isClosed())
+      .map(async ([pool, breaker]) => {
+        try {
+          await pool.query('SELECT 1');
+          breaker.recordProbeSuccess();
+        } catch (error) {
+          breaker.recordFailure(error);
+        }
+      })
+  );
+};
+
+// Background probes; unref'd so the timer never keeps the process alive
+const probeTimer = setInterval(() => {
+  void probeOpenCircuits();
+}, circuitConfig.probeIntervalMs);
+probeTimer.unref();
+
+/**
+ * Current circuit breaker state of each pool
+ */
+export const getCircuitBreakerStatus = (): {
+  primary: CircuitBreakerStatus;
+  replicas: Record<string, CircuitBreakerStatus>;
+} => ({
+  primary: primaryBreaker.status(),
+  replicas: Object.fromEntries(replicaNodes.map((node) => [node.name, node.breaker.status()])),
+});
 
 /**
  * Health check for database connections
+ * `replica` is true when at least one replica is reachable
  */
 export const checkDatabaseHealth = async (): Promise<{
   primary: boolean;
   replica: boolean;
+  replicas: Record<string, boolean>;
 }> => {
   const results = {
     primary: false,
     replica: false,
+    replicas: {} as Record<string, boolean>,
   };
 
   try {
     await primaryPool.query('SELECT 1');
     results.primary = true;
   } catch (error) {
-    console.error('Primary database health check failed:', error);
+    logger.error('Primary database health check failed', { error });
   }
 
+  await Promise.all(
+    replicaNodes.map(async (node) => {
+      try {
+        await node.pool.query('SELECT 1');
+        results.replicas[node.name] = true;
+      } catch (error) {
+        results.replicas[node.name] = false;
+        logger.error('Replica health check failed', { node: node.name, error });
+      }
+    })
+  );
+  results.replica = Object.values(results.replicas).some(Boolean);
+
+  return results;
+};
+
+/**
+ * Detailed diagnostics of a single pool
+ */
+export interface PoolDiagnostics {
+  name: string;
+  role: 'primary' | 'replica';
+  reachable: boolean;
+  latencyMs: number | null;
+  // Actual node role; a primary in recovery or a replica out of recovery means HAProxy misrouting
+  inRecovery: boolean | null;
+  misrouted: boolean;
+  pool: {
+    total: number;
+    idle: number;
+    waiting: number;
+  };
+  circuitBreaker: CircuitBreakerStatus;
+  replication?: {
+    lagBytes: number | null;
+    lagSeconds: number | null;
+  };
+  error?: string;
+}
+
+const describePool = (
+  name: string,
+  role: PoolDiagnostics['role'],
+  pool: Pool,
+  breaker: CircuitBreaker
+): PoolDiagnostics => ({
+  name,
+  role,
+  reachable: false,
+  latencyMs: null,
+  inRecovery: null,
+  misrouted: false,
+  pool: {
+    total: pool.totalCount,
+    idle: pool.idleCount,
+    waiting: pool.waitingCount,
+  },
+  circuitBreaker: breaker.status(),
+});
+
+/**
+ * Latency and recovery state of the primary, plus its current WAL position
+ * Queries only the primary, so replica outages cannot slow it down (readiness probe)
+ */
+export const getPrimaryDiagnostics = async (): Promise<{
+  primary: PoolDiagnostics;
+  lsn: string | null;
+}> => {
+  const primary = describePool('primary', 'primary', primaryPool, primaryBreaker);
+  let primaryLsn: string | null = null;
+
   try {
-    await replicaPool.query('SELECT 1');
-    results.replica = true;
+    const startedAt = performance.now();
+    const result = await primaryPool.query<{ in_recovery: boolean; lsn: string | null }>(`
+      SELECT pg_is_in_recovery() AS in_recovery,
+        CASE WHEN pg_is_in_recovery() THEN NULL ELSE pg_current_wal_lsn()::text END AS lsn
+    `);
+    primary.latencyMs = Math.round((performance.now() - startedAt) * 100) / 100;
+    primary.reachable = true;
+    primary.inRecovery = result.rows[0]?.in_recovery ?? null;
+    primary.misrouted = primary.inRecovery === true;
+    primaryLsn = result.rows[0]?.lsn ?? null;
   } catch (error) {
-    console.error('Replica database health check failed:', error);
+    primary.error = error instanceof Error ? error.message : String(error);
   }
 
-  return results;
+  return { primary, lsn: primaryLsn };
+};
+
+/**
+ * Collect pool statistics, latency, recovery state and replication lag of every pool
+ */
+export const getDatabaseDiagnostics = async (): Promise<{
+  primary: PoolDiagnostics;
+  replicas: PoolDiagnostics[];
+}> => {
+  const { primary, lsn: primaryLsn } = await getPrimaryDiagnostics();
+
+  const replicas = await Promise.all(
+    replicaNodes.map(async (node) => {
+      const diagnostics = describePool(node.name, 'replica', node.pool, node.breaker);
+      diagnostics.replication = { lagBytes: null, lagSeconds: null };
+
+      try {
+        // Bytes behind the primary's current position (or behind what was received, if primary is down)
+        const startedAt = performance.now();
+        const result = await node.pool.query<{
+          in_recovery: boolean;
+          lag_bytes: string | null;
+          lag_seconds: string | null;
+        }>(
+          `SELECT pg_is_in_recovery() AS in_recovery,
+            GREATEST(pg_wal_lsn_diff(COALESCE($1::pg_lsn, pg_last_wal_receive_lsn()), pg_last_wal_replay_lsn()), 0) AS lag_bytes,
+            ${REPLICA_LAG_SECONDS_SQL} AS lag_seconds`,
+          [primaryLsn]
+        );
+        diagnostics.latencyMs = Math.round((performance.now() - startedAt) * 100) / 100;
+        diagnostics.reachable = true;
+
+        const row = result.rows[0];
+        diagnostics.inRecovery = row?.in_recovery ?? null;
+        diagnostics.misrouted = diagnostics.inRecovery === false;
+        diagnostics.replication = {
+          lagBytes: row?.lag_bytes != null ? Number(row.lag_bytes) : null,
+          lagSeconds: row?.lag_seconds != null ? Number(row.lag_seconds) : null,
+        };
+      } catch (error) {
+        diagnostics.error = error instanceof Error ? error.message : String(error);
+      }
+
+      return diagnostics;
+    })
+  );
+
+  return { primary, replicas };
 };
 
 /**
  * Graceful shutdown - close all database connections
  */
 export const closeDatabaseConnections = async (): Promise<void> => {
-  console.log('Closing database connections...');
-  
+  logger.info('Closing database connections');
+  clearInterval(probeTimer);
+
   try {
     await Promise.all([
       primaryPool.end(),
-      replicaPool.end(),
+      ...replicaNodes.map((node) => node.pool.end()),
     ]);
-    console.log('Database connections closed successfully');
+    logger.info('Database connections closed');
   } catch (error) {
-    console.error('Error closing database connections:', error);
+    logger.error('Error closing database connections', { error });
     throw error;
   }
 };
 
 /**
- * Get appropriate database instance based on operation type
- * @param isWrite - true for write operations, false for read operations
+ * Transaction handle passed to withTransaction callbacks
+ */
+export type Transaction = Parameters<Parameters<typeof dbPrimary.transaction>[0]>[0];
+
+/**
+ * Transaction options
+ */
+export interface TransactionOptions {
+  isolation?: 'read committed' | 'repeatable read' | 'serializable';
+  readOnly?: boolean;
+  // Additional attempts after a serialization failure or deadlock
+  retries?: number;
+}
+
+/**
+ * SQLSTATE codes that are safe to retry: serialization_failure, deadlock_detected
+ */
+const RETRYABLE_TRANSACTION_CODES = new Set(['40001', '40P01']);
+
+const isRetryableTransactionError = (error: unknown): boolean => {
+  const { code, cause } = (error ?? {}) as { code?: unknown; cause?: { code?: unknown } };
+  const sqlState = code ?? cause?.code;
+  return typeof sqlState === 'string' && RETRYABLE_TRANSACTION_CODES.has(sqlState);
+};
+
+/**
+ * Transaction of the current async context, used to turn nested calls into savepoints
+ */
+const transactionContext = new AsyncLocalStorage<Transaction>();
+
+/**
+ * Run a callback inside a transaction on the primary pool
+ * - Retries serialization failures and deadlocks with exponential backoff
+ * - Nested calls run inside a savepoint of the enclosing transaction
+ *   (isolation, readOnly and retries apply to the outermost call only)
+ * @param fn - Callback receiving the transaction handle
+ * @param options - Isolation level, access mode and retry count
+ */
+export const withTransaction = async <T>(
+  fn: (tx: Transaction) => Promise<T>,
+  options: TransactionOptions = {}
+): Promise<T> => {
+  const parent = transactionContext.getStore();
+  if (parent) {
+    return parent.transaction((savepoint) => transactionContext.run(savepoint, () => fn(savepoint)));
+  }
+
+  const retries = options.retries ?? 3;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await dbPrimary.transaction(
+        (tx) => transactionContext.run(tx, () => fn(tx)),
+        {
+          isolationLevel: options.isolation ?? 'read committed',
+          accessMode: options.readOnly ? 'read only' : 'read write',
+        }
+      );
+    } catch (error) {
+      if (attempt >= retries || !isRetryableTransactionError(error)) {
+        throw error;
+      }
+
+      // 50ms, 100ms, 200ms, ... with jitter to avoid retrying in lockstep
+      const delayMs = 50 * 2 ** attempt + Math.random() * 25;
+      logger.warn('Transaction conflict, retrying', { delayMs: Math.round(delayMs), attempt: attempt + 1, retries });
+      await Bun.sleep(delayMs);
+    }
+  }
+};
+
+/**
+ * Replication-aware read routing configuration
+ */
+const routingConfig = {
+  // Eject replicas whose measured lag exceeds this value
+  maxReplicaLagMs: Number(process.env.DB_REPLICA_MAX_LAG_MS) || 5000,
+  // How long a measured lag value is reused before querying the replica again
+  lagCheckIntervalMs: Number(process.env.DB_REPLICA_LAG_CHECK_INTERVAL_MS) || 1000,
+  // Upper bound on how long a session stays pinned to primary after a write
+  readYourWritesTtlMs: Number(process.env.DB_READ_YOUR_WRITES_TTL_MS) || 60000,
+};
+
+/**
+ * Last primary WAL position written by each session
+ * Kept in process memory: read-your-writes only holds for reads served by the instance
+ * that handled the write. Behind a load balancer, use sticky sessions (or a shared store)
+ * if a session's reads must see its writes on every instance
  */
-export const getDatabase = (isWrite: boolean): NodePgDatabase<typeof schema> => {
-  return isWrite ? dbPrimary : dbReplica;
+const sessionWritePositions = new Map<string, { lsn: string; expiresAt: number }>();
+
+/**
+ * Measure replica replay lag in milliseconds (cached for lagCheckIntervalMs)
+ * Concurrent callers share one lag query per replica
+ * Returns Infinity when the replica cannot be queried
+ */
+export const getReplicaLagMs = async (node: ReplicaNode): Promise<number> => {
+  if (node.lagSample && Date.now() - node.lagSample.measuredAt < routingConfig.lagCheckIntervalMs) {
+    return node.lagSample.lagMs;
+  }
+
+  node.lagCheck ??= (async () => {
+    let lagMs = Number.POSITIVE_INFINITY;
+    try {
+      const result = await node.pool.query<{ lag_seconds: string | null }>(
+        `SELECT ${REPLICA_LAG_SECONDS_SQL} AS lag_seconds`
+      );
+      lagMs = Number(result.rows[0]?.lag_seconds ?? 0) * 1000;
+    } catch (error) {
+      logger.error('Replica lag check failed', { node: node.name, error });
+    }
+
+    node.lagSample = { lagMs, measuredAt: Date.now() };
+    return lagMs;
+  })().finally(() => {
+    node.lagCheck = null;
+  });
+
+  return node.lagCheck;
+};
+
+/**
+ * Record the primary's current WAL LSN for a session after a write,
+ * so its subsequent reads are served by primary until the replicas catch up
+ * @param sessionId - Session that performed the write
+ */
+export const recordSessionWrite = async (sessionId: string): Promise<void> => {
+  try {
+    const result = await primaryPool.query<{ lsn: string }>(
+      'SELECT pg_current_wal_lsn()::text AS lsn'
+    );
+    const lsn = result.rows[0]?.lsn;
+    if (lsn) {
+      // Drop expired positions of sessions that never read again
+      const now = Date.now();
+      for (const [id, position] of sessionWritePositions) {
+        if (position.expiresAt <= now) sessionWritePositions.delete(id);
+      }
+
+      sessionWritePositions.set(sessionId, {
+        lsn,
+        expiresAt: Date.now() + routingConfig.readYourWritesTtlMs,
+      });
+    }
+  } catch (error) {
+    logger.error('Failed to record write position', { error });
+  }
+};
+
+/**
+ * Check whether a replica has replayed past the given LSN
+ */
+const hasReplicaReplayed = async (node: ReplicaNode, lsn: string): Promise<boolean> => {
+  try {
+    // pg_last_wal_replay_lsn() is NULL when the node is not in recovery
+    const result = await node.pool.query<{ caught_up: boolean | null }>(
+      'SELECT COALESCE(pg_last_wal_replay_lsn(), pg_current_wal_lsn()) >= $1::pg_lsn AS caught_up',
+      [lsn]
+    );
+    return result.rows[0]?.caught_up === true;
+  } catch (error) {
+    logger.error('Replica replay position check failed', { node: node.name, error });
+    return false;
+  }
+};
+
+/**
+ * Replicas eligible for reads: circuit breaker closed and lag within threshold
+ */
+const getEligibleReplicas = async (): Promise<ReplicaNode[]> => {
+  const candidates = replicaNodes.filter((node) => node.breaker.isClosed());
+  const lags = await Promise.all(candidates.map(getReplicaLagMs));
+  return candidates.filter((_, index) => lags[index]! <= routingConfig.maxReplicaLagMs);
+};
+
+let roundRobinCursor = 0;
+
+/**
+ * Pick one replica from a non-empty candidate list using the configured strategy
+ */
+const selectReplica = (candidates: ReplicaNode[]): ReplicaNode => {
+  switch (replicaStrategy) {
+    case 'round-robin': {
+      roundRobinCursor = (roundRobinCursor + 1) % candidates.length;
+      return candidates[roundRobinCursor]!;
+    }
+    case 'least-connections': {
+      // Busy clients plus queued requests, normalized by weight
+      const load = (node: ReplicaNode) =>
+        (node.pool.totalCount - node.pool.idleCount + node.pool.waitingCount) / node.weight;
+      return candidates.reduce((best, node) => (load(node) < load(best) ? node : best));
+    }
+    case 'weighted': {
+      // Smooth weighted round-robin: spreads picks evenly instead of in bursts
+      const totalWeight = candidates.reduce((sum, node) => sum + node.weight, 0);
+      let best = candidates[0]!;
+      for (const node of candidates) {
+        node.currentWeight += node.weight;
+        if (node.currentWeight > best.currentWeight) best = node;
+      }
+      best.currentWeight -= totalWeight;
+      return best;
+    }
+  }
+};
+
+/**
+ * Get database instance for a read operation
+ * - Replicas with an open circuit breaker or lag above the threshold are ejected
+ * - Sessions with a pending write only use replicas that replayed it
+ * - Reads fall back to primary when no replica is eligible
+ * @param sessionId - Session performing the read, if any
+ */
+export const getReadDatabase = async (sessionId?: string): Promise<NodePgDatabase<typeof schema>> => {
+  let candidates = await getEligibleReplicas();
+  let fallbackReason = 'no_eligible_replica';
+
+  if (sessionId) {
+    const position = sessionWritePositions.get(sessionId);
+    if (position) {
+      if (position.expiresAt <= Date.now()) {
+        sessionWritePositions.delete(sessionId);
+      } else {
+        const replayed = await Promise.all(
+          candidates.map((node) => hasReplicaReplayed(node, position.lsn))
+        );
+        const caughtUp = candidates.filter((_, index) => replayed[index]);
+
+        // Forget the position once every replica has replayed it
+        if (caughtUp.length === replicaNodes.length) {
+          sessionWritePositions.delete(sessionId);
+        }
+        if (candidates.length > 0 && caughtUp.length === 0) {
+          fallbackReason = 'read_your_writes';
+        }
+        candidates = caughtUp;
+      }
+    }
+  }
+
+  if (candidates.length === 0) {
+    dbReadsTotal.inc({ target: 'primary', reason: fallbackReason });
+    return dbPrimary;
+  }
+
+  dbReadsTotal.inc({ target: 'replica', reason: 'replica' });
+  return selectReplica(candidates).db;
+};
+
+const circuitStateValues: Record<CircuitState, number> = { closed: 0, 'half-open': 1, open: 2 };
+
+/**
+ * Refresh the pool, circuit breaker and replica lag gauges before a metrics scrape
+ * Lag uses the cached measurement when it is recent enough
+ */
+export const collectDatabaseMetrics = async (): Promise<void> => {
+  const pools: Array<[PoolLabels, Pool, CircuitBreaker]> = [
+    [{ pool: 'primary', node: 'primary' }, primaryPool, primaryBreaker],
+    ...replicaNodes.map((node): [PoolLabels, Pool, CircuitBreaker] => [
+      { pool: 'replica', node: node.name },
+      node.pool,
+      node.breaker,
+    ]),
+  ];
+
+  for (const [labels, pool, breaker] of pools) {
+    dbPoolConnections.set({ ...labels, state: 'total' }, pool.totalCount);
+    dbPoolConnections.set({ ...labels, state: 'idle' }, pool.idleCount);
+    dbPoolConnections.set({ ...labels, state: 'waiting' }, pool.waitingCount);
+    dbPoolMaxConnections.set({ ...labels }, pool.options.max ?? 10);
+    dbCircuitBreakerState.set({ ...labels }, circuitStateValues[breaker.state]);
+  }
+
+  // Replicas with an open breaker are not queried; their lag is unknown
+  await Promise.all(
+    replicaNodes.map(async (node) => {
+      const lagMs = node.breaker.isClosed() ? await getReplicaLagMs(node) : Number.POSITIVE_INFINITY;
+      dbReplicaLagSeconds.set({ node: node.name }, lagMs / 1000);
+    })
+  );
 };
@@ -1,4 +1,26 @@
-import { pgTable, uuid, varchar, text, timestamp, boolean } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { pgTable, uuid, varchar, text, timestamp, boolean, integer, index, uniqueIndex, customType, primaryKey, type AnyPgColumn } from 'drizzle-orm/pg-core';
+
+/**
+ * PostgreSQL tsvector type for full-text search columns
+ */
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  },
+});
+
+/**
+ * User roles, from least to most privileged
+ */
+export const userRoles = ['user', 'moderator', 'admin'] as const;
+export type UserRole = (typeof userRoles)[number];
+
+/**
+ * Scopes a personal API token can be granted
+ */
+export const apiTokenScopes = ['users:read', 'users:write', 'posts:read', 'posts:write'] as const;
+export type ApiTokenScope = (typeof apiTokenScopes)[number];
 
 /**
  * Users table schema
@@ -9,9 +31,19 @@ export const users = pgTable('users', {
   email: varchar('email', { length: 255 }).notNull().unique(),
   emailVerified: boolean('email_verified').notNull().default(false),
   image: text('image'),
+  role: varchar('role', { length: 32 }).$type<UserRole>().notNull().default('user'),
+  // Set once TOTP enrollment is confirmed; login then requires a second step
+  twoFactorEnabled: boolean('two_factor_enabled').notNull().default(false),
+  // Row version, bumped on every update; exposed as the ETag
+  version: integer('version').notNull().default(1),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
-});
+  // Soft delete marker; rows are purged after the retention period
+  deletedAt: timestamp('deleted_at'),
+}, (table) => ({
+  // Keyset pagination order
+  createdAtIdIdx: index('users_created_at_id_idx').on(table.createdAt, table.id),
+}));
 
 /**
  * Posts table schema
@@ -21,13 +53,104 @@ export const posts = pgTable('posts', {
   title: varchar('title', { length: 255 }).notNull(),
   content: text('content').notNull(),
   published: boolean('published').notNull().default(false),
+  // Row version, bumped on every update; exposed as the ETag
+  version: integer('version').notNull().default(1),
   authorId: uuid('author_id')
     .notNull()
     .references(() => users.id, { onDelete: 'cascade' }),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  // Soft delete marker; rows are purged after the retention period
+  deletedAt: timestamp('deleted_at'),
+  // Weighted search document: title matches rank above content matches
+  searchVector: tsvector('search_vector').generatedAlwaysAs(
+    sql`setweight(to_tsvector('english', coalesce(title, '')), 'A') || setweight(to_tsvector('english', coalesce(content, '')), 'B')`
+  ),
+}, (table) => ({
+  // Keyset pagination order
+  createdAtIdIdx: index('posts_created_at_id_idx').on(table.createdAt, table.id),
+  // Filters and alternative sort orders
+  authorIdIdx: index('posts_author_id_idx').on(table.authorId),
+  updatedAtIdIdx: index('posts_updated_at_id_idx').on(table.updatedAt, table.id),
+  titleIdIdx: index('posts_title_id_idx').on(table.title, table.id),
+  searchVectorIdx: index('posts_search_vector_idx').using('gin', table.searchVector),
+}));
+
+/**
+ * Post revisions table
+ * Each row holds a post's state before an update and the user who made that update
+ */
+export const postRevisions = pgTable('post_revisions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  postId: uuid('post_id')
+    .notNull()
+    .references(() => posts.id, { onDelete: 'cascade' }),
+  revision: integer('revision').notNull(),
+  title: varchar('title', { length: 255 }).notNull(),
+  content: text('content').notNull(),
+  published: boolean('published').notNull(),
+  editorId: uuid('editor_id').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  postRevisionIdx: uniqueIndex('post_revisions_post_id_revision_idx').on(table.postId, table.revision),
+}));
+
+/**
+ * Tags table
+ * Names are stored normalized (trimmed, lowercase), so each tag exists once
+ */
+export const tags = pgTable('tags', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: varchar('name', { length: 50 }).notNull().unique(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
 });
 
+/**
+ * Post-tag assignments
+ */
+export const postTags = pgTable('post_tags', {
+  postId: uuid('post_id')
+    .notNull()
+    .references(() => posts.id, { onDelete: 'cascade' }),
+  tagId: uuid('tag_id')
+    .notNull()
+    .references(() => tags.id, { onDelete: 'cascade' }),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.postId, table.tagId] }),
+  // Tag filters and usage counts look up posts by tag
+  tagIdIdx: index('post_tags_tag_id_idx').on(table.tagId),
+}));
+
+/**
+ * Comments table
+ * Replies point at their parent comment; hidden and deleted comments keep their row
+ * so the replies below them stay in the thread
+ */
+export const comments = pgTable('comments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  postId: uuid('post_id')
+    .notNull()
+    .references(() => posts.id, { onDelete: 'cascade' }),
+  // Null for top-level comments
+  parentId: uuid('parent_id').references((): AnyPgColumn => comments.id, { onDelete: 'cascade' }),
+  authorId: uuid('author_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  content: text('content').notNull(),
+  // Hidden by the post author or a moderator; the content is withheld from other readers
+  hiddenAt: timestamp('hidden_at'),
+  hiddenById: uuid('hidden_by_id').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  // Deleted comments stay as placeholders with their content cleared
+  deletedAt: timestamp('deleted_at'),
+}, (table) => ({
+  // Thread listing order
+  postIdCreatedAtIdx: index('comments_post_id_created_at_idx').on(table.postId, table.createdAt, table.id),
+  parentIdIdx: index('comments_parent_id_idx').on(table.parentId),
+  authorIdIdx: index('comments_author_id_idx').on(table.authorId),
+}));
+
 /**
  * Sessions table for Better-Auth
  */
@@ -58,10 +181,51 @@ export const accounts = pgTable('accounts', {
   refreshToken: text('refresh_token'),
   idToken: text('id_token'),
   expiresAt: timestamp('expires_at'),
+  accessTokenExpiresAt: timestamp('access_token_expires_at'),
+  refreshTokenExpiresAt: timestamp('refresh_token_expires_at'),
+  scope: text('scope'), // Granted OAuth scopes, comma separated
   password: varchar('password', { length: 255 }), // For credential provider
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
-});
+}, (table) => ({
+  userIdIdx: index('accounts_user_id_idx').on(table.userId),
+  providerAccountIdx: uniqueIndex('accounts_provider_id_account_id_idx').on(table.providerId, table.accountId),
+}));
+
+/**
+ * Two-factor secrets for Better-Auth (TOTP secret and backup codes, both encrypted)
+ */
+export const twoFactors = pgTable('two_factors', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  secret: text('secret').notNull(),
+  backupCodes: text('backup_codes').notNull(),
+}, (table) => ({
+  userIdIdx: index('two_factors_user_id_idx').on(table.userId),
+}));
+
+/**
+ * Personal API tokens for machine clients
+ * Only the SHA-256 hash of a token is stored; the token itself is shown once on creation
+ */
+export const apiTokens = pgTable('api_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 255 }).notNull(),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  // Leading characters of the token, to tell tokens apart in listings
+  prefix: varchar('prefix', { length: 16 }).notNull(),
+  scopes: text('scopes').array().$type<ApiTokenScope[]>().notNull(),
+  expiresAt: timestamp('expires_at'),
+  lastUsedAt: timestamp('last_used_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  userIdIdx: index('api_tokens_user_id_idx').on(table.userId),
+}));
 
 /**
  * Verifications table for Better-Auth (email verification, password reset)
@@ -75,6 +239,19 @@ export const verifications = pgTable('verifications', {
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
 
+/**
+ * Rate limit counters (used when RATE_LIMIT_STORE=postgres)
+ * One row per key and fixed window; the sliding estimate reads two adjacent windows
+ */
+export const rateLimits = pgTable('rate_limits', {
+  key: varchar('key', { length: 255 }).notNull(),
+  windowStart: timestamp('window_start').notNull(),
+  count: integer('count').notNull().default(0),
+}, (table) => ({
+  keyWindowIdx: uniqueIndex('rate_limits_key_window_start_idx').on(table.key, table.windowStart),
+  windowStartIdx: index('rate_limits_window_start_idx').on(table.windowStart),
+}));
+
 // Type exports for TypeScript
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
@@ -82,11 +259,32 @@ export type NewUser = typeof users.$inferInsert;
 export type Post = typeof posts.$inferSelect;
 export type NewPost = typeof posts.$inferInsert;
 
+export type PostRevision = typeof postRevisions.$inferSelect;
+export type NewPostRevision = typeof postRevisions.$inferInsert;
+
+export type Tag = typeof tags.$inferSelect;
+export type NewTag = typeof tags.$inferInsert;
+
+export type PostTag = typeof postTags.$inferSelect;
+export type NewPostTag = typeof postTags.$inferInsert;
+
+export type Comment = typeof comments.$inferSelect;
+export type NewComment = typeof comments.$inferInsert;
+
 export type Session = typeof sessions.$inferSelect;
 export type NewSession = typeof sessions.$inferInsert;
 
 export type Account = typeof accounts.$inferSelect;
 export type NewAccount = typeof accounts.$inferInsert;
 
+export type TwoFactor = typeof twoFactors.$inferSelect;
+export type NewTwoFactor = typeof twoFactors.$inferInsert;
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type NewApiToken = typeof apiTokens.$inferInsert;
+
 export type Verification = typeof verifications.$inferSelect;
 export type NewVerification = typeof verifications.$inferInsert;
+
+export type RateLimit = typeof rateLimits.$inferSelect;
+export type NewRateLimit = typeof rateLimits.$inferInsert;
@@ -1,9 +1,27 @@
 import { Elysia } from 'elysia';
 import { cors } from '@elysiajs/cors';
 import { authRoutes } from './routes/auth';
+import { sessionRoutes } from './routes/sessions';
+import { twoFactorRoutes } from './routes/two-factor';
+import { tokenRoutes } from './routes/tokens';
+import { oauthRoutes } from './routes/oauth';
+import { accountRoutes } from './routes/accounts';
 import { userRoutes } from './routes/users';
 import { postRoutes } from './routes/posts';
-import { checkDatabaseHealth, closeDatabaseConnections } from './config/database';
+import { postRevisionRoutes } from './routes/revisions';
+import { commentRoutes } from './routes/comments';
+import { tagRoutes } from './routes/tags';
+import { healthRoutes } from './routes/health';
+import { metricsRoutes } from './routes/metrics';
+import { errorHandler } from './middleware/error';
+import { requestLogger } from './middleware/request-logger';
+import { httpMetrics } from './middleware/metrics';
+import { requestTracing } from './middleware/tracing';
+import { apiDocs } from './lib/openapi';
+import { closeDatabaseConnections } from './config/database';
+import { startPurgeJob, stopPurgeJob } from './lib/purge';
+import { logger } from './lib/logger';
+import { shutdownTracing } from './lib/tracing';
 
 // Prevent duplicate Bun.serve calls (watch/HMR can evaluate the module twice)
 const servePatchedFlag = '__demo_bun_serve_patched__';
@@ -18,7 +36,7 @@ if (!globalServeState[servePatchedFlag]) {
 
   Bun.serve = (options) => {
     if (globalServeState.__demo_bun_server__) {
-      console.warn('Reusing existing Bun server; duplicate listen ignored');
+      logger.warn('Reusing existing Bun server; duplicate listen ignored');
       return globalServeState.__demo_bun_server__;
     }
 
@@ -34,16 +52,41 @@ if (!globalServeState[servePatchedFlag]) {
  * Main application setup
  */
 const app = new Elysia()
+  // Request ID and access log; registered first so errors and queries carry the request ID
+  .use(requestLogger)
+
+  // Server span per request (W3C traceparent); query spans hang off it
+  .use(requestTracing)
+
+  // Request count and latency per route (GET /metrics)
+  .use(httpMetrics)
+
+  // Global error handler; registered before the routes so it covers every one
+  .use(errorHandler)
+
   // CORS configuration
   .use(
     cors({
       origin: process.env.CORS_ORIGIN || '*',
       credentials: true,
       methods: ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'If-Match', 'If-None-Match', 'X-Request-Id', 'traceparent', 'tracestate'],
+      exposeHeaders: [
+        'ETag',
+        'X-Request-Id',
+        'set-auth-token',
+        'RateLimit-Limit',
+        'RateLimit-Remaining',
+        'RateLimit-Reset',
+        'RateLimit-Policy',
+        'Retry-After',
+      ],
     })
   )
 
+  // OpenAPI document (/openapi.json) and docs UI (/docs)
+  .use(apiDocs)
+
   // Root endpoint
   .get('/', () => ({
     success: true,
@@ -52,53 +95,20 @@ const app = new Elysia()
     timestamp: new Date().toISOString(),
   }))
 
-  // Health check endpoint
-  .get('/health', async ({ set }) => {
-    try {
-      const dbHealth = await checkDatabaseHealth();
-      const isHealthy = dbHealth.primary && dbHealth.replica;
-      set.status = isHealthy ? 200 : 503;
-      return {
-        success: isHealthy,
-        status: isHealthy ? 'healthy' : 'unhealthy',
-        timestamp: new Date().toISOString(),
-        database: {
-          primary: dbHealth.primary ? 'connected' : 'disconnected',
-          replica: dbHealth.replica ? 'connected' : 'disconnected',
-        },
-      };
-    } catch (error) {
-      set.status = 503;
-      return {
-        success: false,
-        status: 'unhealthy',
-        timestamp: new Date().toISOString(),
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
-    }
-  })
-
   // Register routes
+  .use(healthRoutes)
+  .use(metricsRoutes)
   .use(authRoutes)
+  .use(sessionRoutes)
+  .use(twoFactorRoutes)
+  .use(tokenRoutes)
+  .use(oauthRoutes)
+  .use(accountRoutes)
   .use(userRoutes)
   .use(postRoutes)
-
-  // Global error handler
-  .onError(({ code, error, set }) => {
-    console.error(`Error [${code}]:`, error);
-
-    switch (code) {
-      case 'VALIDATION':
-        set.status = 400;
-        return { success: false, error: 'Validation error', message: error.message };
-      case 'NOT_FOUND':
-        set.status = 404;
-        return { success: false, error: 'Not found', message: 'Resource not found' };
-      default:
-        set.status = 500;
-        return { success: false, error: 'Internal error', message: 'An error occurred' };
-    }
-  });
+  .use(postRevisionRoutes)
+  .use(commentRoutes)
+  .use(tagRoutes);
 
 // Server configuration
 const PORT = Number(process.env.PORT) || 3000;
@@ -112,27 +122,26 @@ const globalState = globalThis as typeof globalThis & {
 };
 
 const logStartup = () => {
-  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-  console.log(`🚀 Server is running on port ${PORT}`);
-  console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
-  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  logger.info('Server is running', { host: HOST, port: PORT, environment: process.env.NODE_ENV || 'development' });
 };
 
 const shutdown = async () => {
+  stopPurgeJob();
   const server = globalState[globalKey];
   if (server && typeof server.stop === 'function') {
     try {
       server.stop();
     } catch (stopError) {
-      console.warn('Server already stopped:', stopError);
+      logger.warn('Server already stopped', { error: stopError });
     }
   }
   await closeDatabaseConnections();
+  await shutdownTracing();
 };
 
 const startServer = () => {
   if (globalState[globalKey]) {
-    console.warn('Server already running, skipping duplicate start');
+    logger.warn('Server already running, skipping duplicate start');
     return globalState[globalKey];
   }
 
@@ -141,9 +150,10 @@ const startServer = () => {
     globalState[globalKey] = server;
 
     logStartup();
+    startPurgeJob();
 
     const handleExit = async () => {
-      console.log('\nShutting down...');
+      logger.info('Shutting down');
       await shutdown();
       process.exit(0);
     };
@@ -161,9 +171,9 @@ const startServer = () => {
   } catch (error) {
     const isAddrInUse = error && typeof error === 'object' && 'code' in error && (error as { code?: string }).code === 'EADDRINUSE';
     if (isAddrInUse) {
-      console.error(`Port ${PORT} is already in use. Make sure no other process is listening on this port.`);
+      logger.error('Port is already in use; make sure no other process is listening on it', { port: PORT });
     }
-    console.error('Failed to start server:', error);
+    logger.error('Failed to start server', { error });
     if (isAddrInUse) {
       process.exit(1);
     }
@@ -175,4 +185,9 @@ if (import.meta.main) {
   startServer();
 }
 
+/**
+ * Type of the application, for Eden clients (see src/client.ts)
+ */
+export type App = typeof app;
+
 export default app;
@@ -0,0 +1,103 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { and, eq, gt, isNull, lt, or } from 'drizzle-orm';
+import { dbPrimary } from '../config/database';
+import { apiTokens, users, type ApiTokenScope } from '../db/schema';
+import { logger } from './logger';
+
+/**
+ * Personal API tokens
+ * Sent as `Authorization: Bearer dpat_...`; they act as their user, limited to their scopes
+ */
+
+export const API_TOKEN_PREFIX = 'dpat_';
+
+// lastUsedAt is written at most this often per token
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export const hashApiToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
+
+export const isApiToken = (value: string): boolean => value.startsWith(API_TOKEN_PREFIX);
+
+/**
+ * New random token with its hash and display prefix
+ */
+export const generateApiToken = (): { token: string; tokenHash: string; prefix: string } => {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return { token, tokenHash: hashApiToken(token), prefix: token.slice(0, 12) };
+};
+
+/**
+ * Resolve a token to its user and scopes
+ * Returns null for unknown or expired tokens and for deleted users
+ * Reads the primary so revoked tokens stop working immediately
+ */
+export const verifyApiToken = async (token: string) => {
+  const now = new Date();
+  const [row] = await dbPrimary
+    .select({
+      token: {
+        id: apiTokens.id,
+        scopes: apiTokens.scopes,
+        expiresAt: apiTokens.expiresAt,
+        lastUsedAt: apiTokens.lastUsedAt,
+        createdAt: apiTokens.createdAt,
+      },
+      user: {
+        id: users.id,
+        name: users.name,
+        email: users.email,
+        emailVerified: users.emailVerified,
+        image: users.image,
+        role: users.role,
+        twoFactorEnabled: users.twoFactorEnabled,
+        createdAt: users.createdAt,
+        updatedAt: users.updatedAt,
+        deletedAt: users.deletedAt,
+      },
+    })
+    .from(apiTokens)
+    .innerJoin(users, eq(apiTokens.userId, users.id))
+    .where(
+      and(
+        eq(apiTokens.tokenHash, hashApiToken(token)),
+        or(isNull(apiTokens.expiresAt), gt(apiTokens.expiresAt, now)),
+        isNull(users.deletedAt)
+      )
+    )
+    .limit(1);
+
+  if (!row) {
+    return null;
+  }
+
+  // Best effort; a failed timestamp update must not fail the request
+  if (!row.token.lastUsedAt || now.getTime() - row.token.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    dbPrimary
+      .update(apiTokens)
+      .set({ lastUsedAt: now })
+      .where(
+        and(
+          eq(apiTokens.id, row.token.id),
+          or(isNull(apiTokens.lastUsedAt), lt(apiTokens.lastUsedAt, new Date(now.getTime() - LAST_USED_RESOLUTION_MS)))
+        )
+      )
+      .catch((error) => logger.error('API token last-used update failed', { error }));
+  }
+
+  return row;
+};
+
+/**
+ * Whether a token's scopes cover every required scope
+ * `:write` implies `:read` for the same resource
+ */
+export const hasScopes = (granted: readonly ApiTokenScope[], required: readonly ApiTokenScope[]): boolean => {
+  return required.every((scope) => {
+    if (granted.includes(scope)) return true;
+
+    const [resource, action] = scope.split(':');
+    return action === 'read' && granted.includes(`${resource}:write` as ApiTokenScope);
+  });
+};
@@ -1,7 +1,92 @@
+import type { Context } from 'elysia';
 import { betterAuth } from 'better-auth';
+import { APIError } from 'better-auth/api';
+import { eq } from 'drizzle-orm';
 import { drizzleAdapter } from 'better-auth/adapters/drizzle';
+import { bearer, genericOAuth, twoFactor } from 'better-auth/plugins';
 import { dbPrimary } from '../config/database';
 import * as schema from '../db/schema';
+import { passwordResetEmail, verificationEmail } from './emails';
+import { logger } from './logger';
+import { mailer } from './mailer';
+
+const appUrl = process.env.BETTER_AUTH_URL || 'http://localhost:3000';
+
+/**
+ * Links sent in auth emails
+ * Verification links hit the API directly; reset links open the client's reset page
+ */
+const authLinks = {
+  verifyEmail: (token: string) => `${appUrl}/auth/verify-email?token=${encodeURIComponent(token)}`,
+  resetPassword: (token: string) =>
+    `${process.env.PASSWORD_RESET_URL || `${appUrl}/reset-password`}?token=${encodeURIComponent(token)}`,
+};
+
+/**
+ * Social sign-in providers, each enabled when its client credentials are set
+ * Redirect URI to register with the provider: `${appUrl}/auth/callback/<provider>`
+ */
+const socialProviders = {
+  ...(process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET
+    ? { github: { clientId: process.env.GITHUB_CLIENT_ID, clientSecret: process.env.GITHUB_CLIENT_SECRET } }
+    : {}),
+  ...(process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET
+    ? { google: { clientId: process.env.GOOGLE_CLIENT_ID, clientSecret: process.env.GOOGLE_CLIENT_SECRET } }
+    : {}),
+};
+
+export type SocialProvider = 'github' | 'google';
+
+/**
+ * Provider id of the generic OpenID Connect provider
+ * Redirect URI to register: `${appUrl}/auth/oauth2/callback/oidc`
+ */
+export const OIDC_PROVIDER_ID = 'oidc';
+
+// Endpoints come from the provider's discovery document
+const oidcProviders =
+  process.env.OIDC_DISCOVERY_URL && process.env.OIDC_CLIENT_ID
+    ? [
+        {
+          providerId: OIDC_PROVIDER_ID,
+          discoveryUrl: process.env.OIDC_DISCOVERY_URL,
+          clientId: process.env.OIDC_CLIENT_ID,
+          clientSecret: process.env.OIDC_CLIENT_SECRET,
+          scopes: (process.env.OIDC_SCOPES || 'openid email profile').split(' '),
+          pkce: true,
+        },
+      ]
+    : [];
+
+/**
+ * Ids of the configured OAuth providers, for sign-in and account linking
+ */
+export const oauthProviders: string[] = [
+  ...Object.keys(socialProviders),
+  ...oidcProviders.map((provider) => provider.providerId),
+];
+
+/**
+ * Read a redirect URL setting; paths are resolved against the app URL
+ * @param name - Environment variable
+ * @param fallback - URL or path used when the variable is unset
+ */
+const redirectUrlFromEnv = (name: string, fallback: string): string => {
+  const value = process.env[name] || fallback;
+  try {
+    return new URL(value, appUrl).href;
+  } catch {
+    throw new Error(`${name} must be an absolute URL or a path, got "${value}"`);
+  }
+};
+
+/**
+ * Where the browser lands after an OAuth redirect flow, unless the client names a URL
+ */
+export const oauthRedirects = {
+  success: redirectUrlFromEnv('OAUTH_REDIRECT_URL', appUrl),
+  error: redirectUrlFromEnv('OAUTH_ERROR_URL', '/auth/error'),
+};
 
 /**
  * Better-Auth configuration with PostgreSQL session storage
@@ -14,16 +99,81 @@ export const auth = betterAuth({
       user: schema.users,
       session: schema.sessions,
       account: schema.accounts,
+      twoFactor: schema.twoFactors,
       verification: schema.verifications,
     },
-    // Generate proper UUIDs for PostgreSQL
-    generateId: () => crypto.randomUUID(),
   }),
   
+  // Expose role and soft delete marker on the session user; never settable by the client
+  user: {
+    additionalFields: {
+      role: {
+        type: 'string',
+        required: false,
+        defaultValue: 'user',
+        input: false,
+      },
+      deletedAt: {
+        type: 'date',
+        required: false,
+        input: false,
+      },
+    },
+  },
+
   // Email and password authentication
   emailAndPassword: {
     enabled: true,
-    requireEmailVerification: false, // Set to true in production with email service
+    // Unverified users cannot log in (403 EMAIL_NOT_VERIFIED)
+    requireEmailVerification: process.env.REQUIRE_EMAIL_VERIFICATION === 'true',
+    resetPasswordTokenExpiresIn: 60 * 60, // 1 hour, as stated in the reset email
+    revokeSessionsOnPasswordReset: true,
+    sendResetPassword: async ({ user, token }) => {
+      await mailer.send({ to: user.email, ...passwordResetEmail(user.name, authLinks.resetPassword(token)) });
+    },
+  },
+
+  // Email verification (token is a signed JWT, not stored)
+  emailVerification: {
+    sendOnSignUp: true,
+    expiresIn: 60 * 60 * 24, // 24 hours
+    sendVerificationEmail: async ({ user, token }) => {
+      await mailer.send({ to: user.email, ...verificationEmail(user.name, authLinks.verifyEmail(token)) });
+    },
+  },
+
+  // GitHub and Google sign-in; new users are created from the provider profile
+  socialProviders,
+
+  databaseHooks: {
+    session: {
+      create: {
+        // Every sign-in path (password, 2FA, social, OIDC) creates a session here; soft-deleted
+        // users are refused before one exists. Same message as a wrong password, so deleted
+        // accounts cannot be told apart from unknown ones
+        before: async (session) => {
+          const [user] = await dbPrimary
+            .select({ deletedAt: schema.users.deletedAt })
+            .from(schema.users)
+            .where(eq(schema.users.id, session.userId))
+            .limit(1);
+
+          if (user?.deletedAt) {
+            throw new APIError('UNAUTHORIZED', { message: 'Invalid email or password' });
+          }
+        },
+      },
+    },
+  },
+
+  account: {
+    accountLinking: {
+      // Signing in with a provider whose verified email matches an existing user links the account
+      enabled: true,
+      // Explicit linking from /auth/accounts/link with a provider account under another email;
+      // off unless enabled for development (e.g. linking accounts of the mock OIDC provider)
+      allowDifferentEmails: process.env.OAUTH_ALLOW_DIFFERENT_EMAILS === 'true',
+    },
   },
 
   // Session configuration
@@ -36,8 +186,29 @@ export const auth = betterAuth({
     },
   },
 
+  plugins: [
+    // Accept the session token as `Authorization: Bearer <token>` for non-browser clients
+    bearer(),
+    // TOTP with backup codes; sign-in answers { twoFactorRedirect } until the code is verified
+    twoFactor({
+      issuer: process.env.TWO_FACTOR_ISSUER || 'Demo Backend',
+      backupCodeOptions: { amount: 10 },
+    }),
+    // Generic OpenID Connect sign-in (e.g. Keycloak, Auth0, or the local mock provider)
+    genericOAuth({ config: oidcProviders }),
+  ],
+
+  // OAuth callbacks fail by redirecting here with ?error=
+  onAPIError: {
+    errorURL: oauthRedirects.error,
+  },
+
   // Security settings
   advanced: {
+    // Id columns are uuid; Better-Auth's default ids are not valid UUIDs
+    database: {
+      generateId: () => crypto.randomUUID(),
+    },
     cookiePrefix: 'demo',
     crossSubDomainCookies: {
       enabled: false,
@@ -47,6 +218,8 @@ export const auth = betterAuth({
 
   // Base URL for redirects and callbacks
   baseURL: process.env.BETTER_AUTH_URL || 'http://localhost:3000',
+  // Better-Auth endpoints reached through auth.handler (OAuth callbacks) live under /auth
+  basePath: '/auth',
   
   // Secret key for encryption
   secret: process.env.BETTER_AUTH_SECRET || 'your-secret-key-change-in-production',
@@ -54,6 +227,8 @@ export const auth = betterAuth({
   // Trust proxy for production environments behind reverse proxy
   trustedOrigins: [
     process.env.BETTER_AUTH_URL || 'http://localhost:3000',
+    // Client app that OAuth flows redirect back to
+    ...[oauthRedirects.success, oauthRedirects.error].map((url) => new URL(url).origin),
   ],
 });
 
@@ -67,17 +242,21 @@ export type AuthSession = typeof auth.$Infer.Session;
  */
 export const verifySession = async (headers: Record<string, string | undefined>) => {
   try {
+    // Always read the session row: the signed cookie cache would keep revoked sessions,
+    // role changes and soft deletes from taking effect until it expires
     const session = await auth.api.getSession({
       headers: headers as Record<string, string>,
+      query: { disableCookieCache: true },
     });
 
-    if (!session) {
+    // Soft-deleted users keep their row but must not authenticate
+    if (!session || session.user.deletedAt) {
       return null;
     }
 
     return session;
   } catch (error) {
-    console.error('Session verification error:', error);
+    logger.error('Session verification error', { error });
     return null;
   }
 };
@@ -89,3 +268,18 @@ export const getUserFromSession = async (headers: Record<string, string | undefi
   const session = await verifySession(headers);
   return session?.user ?? null;
 };
+
+/**
+ * Forward the session cookie and bearer token Better-Auth issued to the client
+ */
+export const forwardAuthHeaders = (headers: Headers, set: Context['set']) => {
+  const cookies = headers.getSetCookie();
+  if (cookies.length > 0) {
+    set.headers['set-cookie'] = cookies;
+  }
+
+  const token = headers.get('set-auth-token');
+  if (token) {
+    set.headers['set-auth-token'] = token;
+  }
+};
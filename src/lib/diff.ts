@@ -0,0 +1,130 @@
+/**
+ * Line-based text diff producing unified diff output
+ */
+
+type DiffOp = { type: 'equal' | 'delete' | 'insert'; line: string };
+
+// Above this many LCS cells (4 bytes each) the diff degrades to "replace everything"
+const MAX_LCS_CELLS = 1_000_000;
+
+/**
+ * Split text into lines; empty text has none
+ */
+const splitLines = (text: string): string[] => (text === '' ? [] : text.split('\n'));
+
+/**
+ * Compute line operations turning `oldLines` into `newLines` (longest common subsequence)
+ */
+const diffLines = (oldLines: string[], newLines: string[]): DiffOp[] => {
+  // Trim common prefix and suffix so the LCS table only covers the changed region
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const prefix = oldLines.slice(0, start).map((line): DiffOp => ({ type: 'equal', line }));
+  const suffix = oldLines.slice(oldEnd).map((line): DiffOp => ({ type: 'equal', line }));
+  const a = oldLines.slice(start, oldEnd);
+  const b = newLines.slice(start, newEnd);
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...prefix,
+      ...a.map((line): DiffOp => ({ type: 'delete', line })),
+      ...b.map((line): DiffOp => ({ type: 'insert', line })),
+      ...suffix,
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i]![j] = a[i] === b[j]
+        ? lengths[i + 1]![j + 1]! + 1
+        : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+
+  const middle: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      middle.push({ type: 'equal', line: a[i]! });
+      i++;
+      j++;
+    } else if (lengths[i + 1]![j]! >= lengths[i]![j + 1]!) {
+      middle.push({ type: 'delete', line: a[i++]! });
+    } else {
+      middle.push({ type: 'insert', line: b[j++]! });
+    }
+  }
+  while (i < a.length) middle.push({ type: 'delete', line: a[i++]! });
+  while (j < b.length) middle.push({ type: 'insert', line: b[j++]! });
+
+  return [...prefix, ...middle, ...suffix];
+};
+
+/**
+ * Create a unified diff between two texts; returns an empty string when they are equal
+ * @param oldText - Original text
+ * @param newText - Changed text
+ * @param labels - File labels for the `---`/`+++` header lines
+ * @param context - Unchanged lines shown around each change
+ */
+export const createUnifiedDiff = (
+  oldText: string,
+  newText: string,
+  labels: { from: string; to: string },
+  context = 3
+): string => {
+  if (oldText === newText) return '';
+
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  const output = [`--- ${labels.from}`, `+++ ${labels.to}`];
+
+  // Group changes into one hunk when at most 2 * context unchanged lines separate them
+  let index = 0;
+  while (index < ops.length) {
+    while (index < ops.length && ops[index]!.type === 'equal') index++;
+    if (index >= ops.length) break;
+
+    const hunkStart = Math.max(0, index - context);
+    let hunkEnd = index;
+    let lastChange = index;
+    while (hunkEnd < ops.length && hunkEnd - lastChange <= context * 2 + 1) {
+      if (ops[hunkEnd]!.type !== 'equal') lastChange = hunkEnd;
+      hunkEnd++;
+    }
+    hunkEnd = Math.min(ops.length, lastChange + context + 1);
+
+    // Line numbers (1-based) of the hunk start in old and new text
+    let oldLine = 1;
+    let newLine = 1;
+    for (const op of ops.slice(0, hunkStart)) {
+      if (op.type !== 'insert') oldLine++;
+      if (op.type !== 'delete') newLine++;
+    }
+
+    const hunk = ops.slice(hunkStart, hunkEnd);
+    const oldCount = hunk.filter((op) => op.type !== 'insert').length;
+    const newCount = hunk.filter((op) => op.type !== 'delete').length;
+
+    output.push(`@@ -${oldCount ? oldLine : oldLine - 1},${oldCount} +${newCount ? newLine : newLine - 1},${newCount} @@`);
+    for (const op of hunk) {
+      const prefix = op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+';
+      output.push(`${prefix}${op.line}`);
+    }
+
+    index = hunkEnd;
+  }
+
+  return output.join('\n');
+};
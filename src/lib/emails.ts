@@ -0,0 +1,29 @@
+import type { MailMessage } from './mailer';
+
+/**
+ * Email templates for the auth flows
+ */
+
+type EmailContent = Pick<MailMessage, 'subject' | 'text' | 'html'>;
+
+const escapeHtml = (value: string): string => {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+};
+
+/**
+ * Ask a new user to confirm their email address
+ */
+export const verificationEmail = (name: string, url: string): EmailContent => ({
+  subject: 'Verify your email address',
+  text: `Hi ${name},\n\nConfirm your email address by opening this link:\n${url}\n\nIf you did not create an account, ignore this email.`,
+  html: `<p>Hi ${escapeHtml(name)},</p><p>Confirm your email address by opening this link:</p><p><a href="${escapeHtml(url)}">Verify email</a></p><p>If you did not create an account, ignore this email.</p>`,
+});
+
+/**
+ * Password reset link
+ */
+export const passwordResetEmail = (name: string, url: string): EmailContent => ({
+  subject: 'Reset your password',
+  text: `Hi ${name},\n\nReset your password by opening this link:\n${url}\n\nThe link expires in one hour. If you did not ask for a reset, ignore this email.`,
+  html: `<p>Hi ${escapeHtml(name)},</p><p>Reset your password by opening this link:</p><p><a href="${escapeHtml(url)}">Reset password</a></p><p>The link expires in one hour. If you did not ask for a reset, ignore this email.</p>`,
+});
@@ -0,0 +1,170 @@
+/**
+ * Application error hierarchy
+ * Each error carries an HTTP status and a stable machine-readable code,
+ * rendered as RFC 7807 problem details by the global error handler
+ */
+export class AppError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly title: string;
+
+  constructor(message: string, options: { status: number; code: string; title: string }) {
+    super(message);
+    this.name = 'AppError';
+    this.status = options.status;
+    this.code = options.code;
+    this.title = options.title;
+  }
+}
+
+/**
+ * Request cannot be processed as sent, e.g. a failed OAuth redirect
+ */
+export class BadRequestError extends AppError {
+  constructor(message: string = 'Bad request', code: string = 'bad_request') {
+    super(message, { status: 400, code, title: 'Bad Request' });
+    this.name = 'BadRequestError';
+  }
+}
+
+/**
+ * Custom error for unauthorized access
+ */
+export class UnauthorizedError extends AppError {
+  constructor(message: string = 'Unauthorized') {
+    super(message, { status: 401, code: 'unauthorized', title: 'Unauthorized' });
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/**
+ * Authenticated user lacks permission for the action
+ */
+export class ForbiddenError extends AppError {
+  constructor(message: string = 'Forbidden') {
+    super(message, { status: 403, code: 'forbidden', title: 'Forbidden' });
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * Requested resource does not exist (or is soft-deleted)
+ */
+export class NotFoundError extends AppError {
+  constructor(message: string = 'Resource not found') {
+    super(message, { status: 404, code: 'not_found', title: 'Not Found' });
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Request conflicts with the current state, e.g. a unique constraint
+ */
+export class ConflictError extends AppError {
+  constructor(message: string = 'Conflict') {
+    super(message, { status: 409, code: 'conflict', title: 'Conflict' });
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * If-Match precondition did not match the current row version
+ */
+export class PreconditionFailedError extends AppError {
+  constructor(message: string = 'Precondition failed') {
+    super(message, { status: 412, code: 'precondition_failed', title: 'Precondition Failed' });
+    this.name = 'PreconditionFailedError';
+  }
+}
+
+/**
+ * Request input is invalid beyond what schema validation catches
+ */
+export class ValidationError extends AppError {
+  readonly errors?: Array<{ path?: string; message?: string }>;
+
+  constructor(message: string = 'Validation error', errors?: Array<{ path?: string; message?: string }>) {
+    super(message, { status: 400, code: 'validation_failed', title: 'Validation Error' });
+    this.name = 'ValidationError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Client exceeded a rate limit or its account is temporarily locked
+ * `retryAfter` (seconds) is sent as the Retry-After header
+ */
+export class TooManyRequestsError extends AppError {
+  readonly retryAfter: number;
+
+  constructor(message: string = 'Too many requests', retryAfter: number, code: string = 'rate_limited') {
+    super(message, { status: 429, code, title: 'Too Many Requests' });
+    this.name = 'TooManyRequestsError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Database cannot be reached
+ */
+export class DatabaseUnavailableError extends AppError {
+  constructor(message: string = 'Database is temporarily unavailable') {
+    super(message, { status: 503, code: 'database_unavailable', title: 'Service Unavailable' });
+    this.name = 'DatabaseUnavailableError';
+  }
+}
+
+/**
+ * Node/pg error codes meaning the connection itself failed
+ */
+const CONNECTION_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EHOSTUNREACH',
+  '57P01', // admin_shutdown
+  '57P02', // crash_shutdown
+  '57P03', // cannot_connect_now
+  '53300', // too_many_connections
+]);
+
+/**
+ * Translate PostgreSQL / driver errors into application errors
+ * Returns null for errors that are not database errors
+ */
+export const fromDatabaseError = (error: unknown): AppError | null => {
+  if (!error || typeof error !== 'object') return null;
+
+  const { code, constraint, message } = error as { code?: unknown; constraint?: unknown; message?: unknown };
+  const text = typeof message === 'string' ? message : '';
+
+  if (typeof code === 'string') {
+    // Class 08: connection exception
+    if (CONNECTION_ERROR_CODES.has(code) || code.startsWith('08')) {
+      return new DatabaseUnavailableError();
+    }
+
+    switch (code) {
+      case '23505':
+        return new ConflictError(
+          typeof constraint === 'string' ? `Duplicate value violates ${constraint}` : 'Duplicate value'
+        );
+      case '23503':
+        return new ConflictError('Referenced resource does not exist or is still in use');
+      case '40001':
+      case '40P01':
+        return new ConflictError('Concurrent update conflict; retry the request');
+      case '22P02':
+      case '23502':
+      case '23514':
+        return new ValidationError('Invalid value for database column');
+    }
+  }
+
+  if (/connection terminated|timeout exceeded when trying to connect|Connection terminated unexpectedly/i.test(text)) {
+    return new DatabaseUnavailableError();
+  }
+
+  return null;
+};
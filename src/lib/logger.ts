@@ -0,0 +1,96 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Context as TraceContext } from '@opentelemetry/api';
+
+/**
+ * Structured logging
+ * Every entry is one JSON line with level, timestamp and message; entries written while
+ * handling a request also carry its request ID, trace ID and (once authenticated) user ID
+ */
+
+export const logLevels = ['debug', 'info', 'warn', 'error'] as const;
+export type LogLevel = (typeof logLevels)[number];
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logger configuration
+ */
+export const logConfig = {
+  level: (logLevels.includes(process.env.LOG_LEVEL as LogLevel) ? process.env.LOG_LEVEL : 'info') as LogLevel,
+  // Log every SQL statement at debug level (statement text only, never parameters)
+  queries: process.env.LOG_QUERIES === 'true',
+};
+
+/**
+ * Per-request values attached to every entry logged while handling the request
+ */
+export interface RequestContext {
+  requestId: string;
+  userId?: string;
+  // Set by request tracing; parent of the request's query spans
+  traceId?: string;
+  traceContext?: TraceContext;
+}
+
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Record the authenticated user on the current request
+ */
+export const setRequestUser = (userId: string): void => {
+  const context = requestContext.getStore();
+  if (context) {
+    context.userId = userId;
+  }
+};
+
+/**
+ * Errors do not serialize with JSON.stringify; keep what helps debugging
+ */
+const serializeError = (error: unknown): unknown => {
+  if (!(error instanceof Error)) return error;
+
+  const { code, cause } = error as Error & { code?: unknown };
+  return {
+    name: error.name,
+    message: error.message,
+    ...(code !== undefined && { code }),
+    stack: error.stack,
+    ...(cause !== undefined && { cause: serializeError(cause) }),
+  };
+};
+
+const write = (level: LogLevel, message: string, fields?: LogFields) => {
+  if (logLevels.indexOf(level) < logLevels.indexOf(logConfig.level)) return;
+
+  const context = requestContext.getStore();
+  const entry: LogFields = {
+    level,
+    time: new Date().toISOString(),
+    msg: message,
+    ...(context && { requestId: context.requestId }),
+    ...(context?.traceId && { traceId: context.traceId }),
+    ...(context?.userId && { userId: context.userId }),
+  };
+
+  for (const [key, value] of Object.entries(fields ?? {})) {
+    entry[key] = value instanceof Error ? serializeError(value) : value;
+  }
+
+  const line = `${JSON.stringify(entry)}\n`;
+  if (level === 'error' || level === 'warn') {
+    process.stderr.write(line);
+  } else {
+    process.stdout.write(line);
+  }
+};
+
+/**
+ * Application logger; pass errors as a field (`{ error }`) to keep their stack
+ */
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields),
+};
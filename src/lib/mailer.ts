@@ -0,0 +1,119 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import nodemailer from 'nodemailer';
+import { logger } from './logger';
+
+/**
+ * Outgoing email delivery
+ * The transport is chosen by MAIL_TRANSPORT: `smtp`, `console` (default) or `file`
+ */
+
+/**
+ * Mailer configuration
+ */
+export const mailConfig = {
+  transport: (process.env.MAIL_TRANSPORT || 'console') as 'smtp' | 'console' | 'file',
+  from: process.env.MAIL_FROM || 'Demo <no-reply@localhost>',
+  smtp: {
+    host: process.env.SMTP_HOST || 'localhost',
+    port: Number(process.env.SMTP_PORT) || 587,
+    // Implicit TLS (port 465); otherwise STARTTLS is used when the server offers it
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+  },
+  // Directory the file transport writes one JSON file per message to
+  outboxDir: process.env.MAIL_OUTBOX_DIR || '.outbox',
+};
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Message as stored by the file outbox
+ */
+export interface OutboxMessage extends MailMessage {
+  from: string;
+  sentAt: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Deliver through an SMTP server
+ */
+export const createSmtpMailer = (options: typeof mailConfig.smtp, from: string): Mailer => {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.password } : undefined,
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail({ from, ...message });
+    },
+  };
+};
+
+/**
+ * Log messages instead of sending them (development)
+ */
+export const createConsoleMailer = (from: string): Mailer => {
+  return {
+    async send(message) {
+      logger.info('Mail (console transport)', { from, to: message.to, subject: message.subject, text: message.text });
+    },
+  };
+};
+
+/**
+ * Write each message to a JSON file, so tests can assert on sent emails without a network
+ */
+export const createFileOutboxMailer = (directory: string, from: string): Mailer => {
+  return {
+    async send(message) {
+      const stored: OutboxMessage = { from, ...message, sentAt: new Date().toISOString() };
+
+      await mkdir(directory, { recursive: true });
+      // Timestamp prefix keeps the files in sending order
+      await writeFile(join(directory, `${Date.now()}-${randomUUID()}.json`), JSON.stringify(stored, null, 2));
+    },
+  };
+};
+
+/**
+ * Read the messages of a file outbox, oldest first (optionally only those sent to `to`)
+ */
+export const readOutbox = async (directory: string = mailConfig.outboxDir, to?: string): Promise<OutboxMessage[]> => {
+  const files = await readdir(directory).catch(() => [] as string[]);
+  const messages = await Promise.all(
+    files
+      .filter((file) => file.endsWith('.json'))
+      .sort()
+      .map(async (file) => JSON.parse(await readFile(join(directory, file), 'utf8')) as OutboxMessage)
+  );
+
+  return to ? messages.filter((message) => message.to === to) : messages;
+};
+
+const createMailer = (): Mailer => {
+  switch (mailConfig.transport) {
+    case 'smtp':
+      return createSmtpMailer(mailConfig.smtp, mailConfig.from);
+    case 'file':
+      return createFileOutboxMailer(mailConfig.outboxDir, mailConfig.from);
+    default:
+      return createConsoleMailer(mailConfig.from);
+  }
+};
+
+export const mailer = createMailer();
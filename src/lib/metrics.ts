@@ -0,0 +1,91 @@
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+
+/**
+ * Prometheus metrics, exposed in text format on GET /metrics
+ * Modules record into the metrics defined here; gauges that mirror state
+ * (pools, lag, circuit breakers) are refreshed right before each scrape
+ */
+
+export const metricsRegistry = new Registry();
+
+// Process CPU, memory, event loop lag and GC
+collectDefaultMetrics({ register: metricsRegistry });
+
+/**
+ * Metrics configuration
+ */
+export const metricsConfig = {
+  // When set, GET /metrics requires `Authorization: Bearer <token>`
+  token: process.env.METRICS_TOKEN || null,
+};
+
+export const httpRequestsTotal = new Counter({
+  name: 'http_requests_total',
+  help: 'HTTP requests by method, route pattern and status',
+  labelNames: ['method', 'route', 'status'] as const,
+  registers: [metricsRegistry],
+});
+
+export const httpRequestDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request latency by method, route pattern and status',
+  labelNames: ['method', 'route', 'status'] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [metricsRegistry],
+});
+
+/**
+ * Pool labels: `pool` is primary or replica, `node` the replica name (primary for the primary)
+ */
+export const dbPoolConnections = new Gauge({
+  name: 'db_pool_connections',
+  help: 'Database pool clients by state (total, idle, waiting requests)',
+  labelNames: ['pool', 'node', 'state'] as const,
+  registers: [metricsRegistry],
+});
+
+export const dbPoolMaxConnections = new Gauge({
+  name: 'db_pool_max_connections',
+  help: 'Configured maximum clients of the database pool',
+  labelNames: ['pool', 'node'] as const,
+  registers: [metricsRegistry],
+});
+
+export const dbQueryDuration = new Histogram({
+  name: 'db_query_duration_seconds',
+  help: 'Database query duration by pool',
+  labelNames: ['pool', 'node'] as const,
+  buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers: [metricsRegistry],
+});
+
+export const dbReplicaLagSeconds = new Gauge({
+  name: 'db_replica_lag_seconds',
+  help: 'Replica replay lag; +Inf when the replica cannot be queried',
+  labelNames: ['node'] as const,
+  registers: [metricsRegistry],
+});
+
+export const dbCircuitBreakerState = new Gauge({
+  name: 'db_circuit_breaker_state',
+  help: 'Circuit breaker state: 0 closed, 1 half-open, 2 open',
+  labelNames: ['pool', 'node'] as const,
+  registers: [metricsRegistry],
+});
+
+/**
+ * Where reads were routed; `reason` explains reads that went to the primary
+ */
+export const dbReadsTotal = new Counter({
+  name: 'db_reads_total',
+  help: 'Read database selections by target and reason',
+  labelNames: ['target', 'reason'] as const,
+  registers: [metricsRegistry],
+});
+
+export const authLoginsTotal = new Counter({
+  name: 'auth_logins_total',
+  help: 'Email and password logins by result (success, two_factor, failure, locked)',
+  labelNames: ['result'] as const,
+  registers: [metricsRegistry],
+});
@@ -0,0 +1,90 @@
+import { auth, OIDC_PROVIDER_ID, oauthProviders, oauthRedirects, type SocialProvider } from './auth';
+import { ForbiddenError, NotFoundError } from './errors';
+
+/**
+ * OAuth redirect flows (GitHub, Google, generic OIDC)
+ * Starting a flow stores its state and sets a state cookie; the provider then
+ * redirects the browser to /auth/callback/<provider>, which Better-Auth handles
+ */
+
+export interface OAuthFlowOptions {
+  // Where the browser goes after the callback; must be a trusted origin
+  callbackURL?: string;
+  // Where the browser goes with ?error= when the flow fails
+  errorCallbackURL?: string;
+}
+
+/**
+ * Authorization URL and the headers (state cookie) to forward to the client
+ */
+export interface OAuthFlowStart {
+  headers: Headers;
+  url: string;
+  redirect: boolean;
+}
+
+/**
+ * Start a sign-in (`sign-in`) or account linking (`link`) flow with a configured provider
+ * Linking needs the session in `headers`; unknown or unconfigured providers are 404
+ */
+export const startOAuthFlow = async (
+  mode: 'sign-in' | 'link',
+  provider: string,
+  headers: Headers,
+  options: OAuthFlowOptions
+): Promise<OAuthFlowStart> => {
+  if (!oauthProviders.includes(provider)) {
+    throw new NotFoundError(`OAuth provider '${provider}' is not configured`);
+  }
+
+  const redirects = {
+    callbackURL: options.callbackURL ?? oauthRedirects.success,
+    errorCallbackURL: options.errorCallbackURL ?? oauthRedirects.error,
+  };
+
+  // Better-Auth only checks redirect targets on requests it handles itself, not on auth.api calls
+  const context = await auth.$context;
+  for (const [label, url] of Object.entries(redirects)) {
+    if (!context.isTrustedOrigin(url, { allowRelativePaths: true })) {
+      throw new ForbiddenError(`Invalid ${label}: not a trusted origin`);
+    }
+  }
+  const requestHeaders = headers as unknown as Record<string, string>;
+
+  if (provider === OIDC_PROVIDER_ID) {
+    const { headers: authHeaders, response } =
+      mode === 'link'
+        ? await auth.api.oAuth2LinkAccount({
+            body: { providerId: provider, ...redirects },
+            headers: requestHeaders,
+            returnHeaders: true,
+          })
+        : await auth.api.signInWithOAuth2({
+            body: { providerId: provider, ...redirects },
+            headers: requestHeaders,
+            returnHeaders: true,
+          });
+
+    return { headers: authHeaders, url: response.url, redirect: response.redirect };
+  }
+
+  const { headers: authHeaders, response } =
+    mode === 'link'
+      ? await auth.api.linkSocialAccount({
+          body: { provider: provider as SocialProvider, ...redirects },
+          headers: requestHeaders,
+          returnHeaders: true,
+        })
+      : await auth.api.signInSocial({
+          body: { provider: provider as SocialProvider, ...redirects },
+          headers: requestHeaders,
+          returnHeaders: true,
+        });
+
+  // Only ID-token sign-in (not used here) answers without a URL
+  if (!('url' in response) || !response.url) {
+    throw new Error(`OAuth provider '${provider}' did not return an authorization URL`);
+  }
+
+  return { headers: authHeaders, url: response.url, redirect: response.redirect };
+};
@@ -0,0 +1,147 @@
+import { t } from 'elysia';
+import { and, asc, desc, sql, type SQL } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+
+/**
+ * Keyset pagination over (sort column, id), newest first by default
+ * Cursors are opaque base64url tokens holding the boundary row, the sort
+ * they were issued for and the paging direction
+ */
+
+export type CursorDirection = 'next' | 'prev';
+export type SortOrder = 'asc' | 'desc';
+
+export interface DecodedCursor {
+  // Full-precision text of the sort value; JS Dates would truncate microseconds
+  key: string;
+  id: string;
+  // Sort the cursor was issued for, e.g. "createdAt:desc"
+  sort: string;
+  direction: CursorDirection;
+}
+
+/**
+ * Shared query schema for paginated listings
+ * `offset` keeps the legacy offset mode; `cursor` switches to keyset mode
+ */
+export const paginationQuery = {
+  limit: t.Optional(t.Number({ minimum: 1, maximum: 100 })),
+  offset: t.Optional(t.Number({ minimum: 0 })),
+  cursor: t.Optional(t.String({ minLength: 1 })),
+  includeTotal: t.Optional(t.Boolean()),
+};
+
+/**
+ * Response schema for the `pagination` block of listings
+ */
+export const paginationResponse = t.Object({
+  limit: t.Integer(),
+  offset: t.Optional(t.Integer({ description: 'Present in offset mode only' })),
+  nextCursor: t.Nullable(t.String()),
+  prevCursor: t.Nullable(t.String()),
+  total: t.Optional(t.Integer({ description: 'Present when includeTotal=true' })),
+});
+
+export const encodeCursor = (key: string, id: string, sort: string, direction: CursorDirection): string => {
+  return Buffer.from(JSON.stringify({ k: key, i: id, s: sort, d: direction })).toString('base64url');
+};
+
+/**
+ * Decode a cursor token; returns null for malformed or tampered input
+ */
+export const decodeCursor = (cursor: string): DecodedCursor | null => {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const valid =
+      typeof payload?.k === 'string' &&
+      typeof payload?.i === 'string' &&
+      /^[0-9a-f-]{36}$/i.test(payload.i) &&
+      typeof payload?.s === 'string' &&
+      (payload?.d === 'next' || payload?.d === 'prev');
+
+    return valid ? { key: payload.k, id: payload.i, sort: payload.s, direction: payload.d } : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Select expression for the row's cursor key
+ */
+export const cursorKey = (column: AnyPgColumn) => sql<string>`${column}::text`;
+
+/**
+ * WHERE condition selecting rows after (next) or before (prev) the cursor row
+ */
+export const keysetCondition = (
+  column: AnyPgColumn,
+  id: AnyPgColumn,
+  cursor: DecodedCursor | null,
+  order: SortOrder = 'desc'
+): SQL | undefined => {
+  if (!cursor) return undefined;
+
+  const key = sql`CAST(${cursor.key} AS ${sql.raw(column.getSQLType())})`;
+  const forward = cursor.direction === 'next';
+  return forward === (order === 'desc')
+    ? sql`(${column}, ${id}) < (${key}, ${cursor.id}::uuid)`
+    : sql`(${column}, ${id}) > (${key}, ${cursor.id}::uuid)`;
+};
+
+/**
+ * ORDER BY for a page; backward pages are fetched in reverse and flipped afterwards
+ */
+export const keysetOrder = (
+  column: AnyPgColumn,
+  id: AnyPgColumn,
+  cursor: DecodedCursor | null,
+  order: SortOrder = 'desc'
+): SQL[] => {
+  const reversed = cursor?.direction === 'prev';
+  return (order === 'desc') !== reversed
+    ? [desc(column), desc(id)]
+    : [asc(column), asc(id)];
+};
+
+/**
+ * Combine optional filter conditions
+ */
+export const whereAll = (...conditions: Array<SQL | undefined>): SQL | undefined => {
+  const present = conditions.filter((condition): condition is SQL => condition !== undefined);
+  return present.length > 0 ? and(...present) : undefined;
+};
+
+/**
+ * Turn `limit + 1` fetched rows into a page with neighbouring cursors
+ * @param rows - Rows fetched with keysetOrder and limit + 1
+ * @param limit - Requested page size
+ * @param cursor - Decoded request cursor, null for the first page or offset mode
+ * @param offset - Offset used in offset mode
+ * @param sort - Sort signature embedded into issued cursors; null issues no cursors
+ */
+export const buildPage = <T extends { id: string; cursorKey: string }>(
+  rows: T[],
+  limit: number,
+  cursor: DecodedCursor | null,
+  offset = 0,
+  sort: string | null = 'createdAt:desc'
+) => {
+  const hasMore = rows.length > limit;
+  const pageRows = rows.slice(0, limit);
+  if (cursor?.direction === 'prev') pageRows.reverse();
+
+  const first = pageRows[0];
+  const last = pageRows[pageRows.length - 1];
+
+  // Walking backwards, "more" rows lie before the page; the cursor row itself lies after it
+  const hasNext = cursor?.direction === 'prev' ? true : hasMore;
+  const hasPrev = cursor?.direction === 'prev' ? hasMore : cursor !== null || offset > 0;
+
+  const items = pageRows.map(({ cursorKey: _cursorKey, ...row }) => row);
+
+  return {
+    items,
+    nextCursor: sort !== null && hasNext && last ? encodeCursor(last.cursorKey, last.id, sort, 'next') : null,
+    prevCursor: sort !== null && hasPrev && first ? encodeCursor(first.cursorKey, first.id, sort, 'prev') : null,
+  };
+};
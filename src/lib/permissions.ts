@@ -0,0 +1,66 @@
+import type { UserRole } from '../db/schema';
+
+/**
+ * Permissions in `resource:action[:scope]` form
+ * - `:any` permissions extend an action to resources owned by other users
+ */
+export type Permission =
+  | 'users:update:any'
+  | 'users:delete:any'
+  | 'users:update:role'
+  | 'users:restore:any'
+  | 'posts:update:any'
+  | 'posts:delete:any'
+  | 'posts:restore:any'
+  | 'comments:delete:any'
+  | 'comments:hide:any'
+  | 'sessions:revoke:any';
+
+/**
+ * Permissions granted to each role
+ * Regular users get none: they can only manage their own profile, posts and comments
+ * (and hide comments on their own posts)
+ */
+const rolePermissions: Record<UserRole, readonly Permission[]> = {
+  user: [],
+  moderator: [
+    'posts:update:any',
+    'posts:delete:any',
+    'posts:restore:any',
+    'comments:delete:any',
+    'comments:hide:any',
+  ],
+  admin: [
+    'users:update:any',
+    'users:delete:any',
+    'users:update:role',
+    'users:restore:any',
+    'posts:update:any',
+    'posts:delete:any',
+    'posts:restore:any',
+    'comments:delete:any',
+    'comments:hide:any',
+    'sessions:revoke:any',
+  ],
+};
+
+/**
+ * Check whether a role grants a permission
+ * Unknown roles are treated as having no permissions
+ */
+export const hasPermission = (role: string | null | undefined, permission: Permission): boolean => {
+  const permissions = rolePermissions[role as UserRole] as readonly Permission[] | undefined;
+  return permissions?.includes(permission) ?? false;
+};
+
+/**
+ * Check whether a user may act on a resource: owners always can,
+ * everyone else needs the matching `:any` permission
+ */
+export const canActOn = (
+  user: { id: string; role?: string | null },
+  ownerId: string,
+  permission: Permission
+): boolean => {
+  return user.id === ownerId || hasPermission(user.role, permission);
+};
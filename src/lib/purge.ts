@@ -0,0 +1,77 @@
+import { and, isNotNull, lt, sql } from 'drizzle-orm';
+import { withTransaction } from '../config/database';
+import { posts, users } from '../db/schema';
+import { logger } from './logger';
+
+/**
+ * Soft delete purge configuration
+ */
+const purgeConfig = {
+  // Soft-deleted rows older than this are removed permanently
+  retentionDays: Number(process.env.SOFT_DELETE_RETENTION_DAYS) || 30,
+  intervalMs: Number(process.env.SOFT_DELETE_PURGE_INTERVAL_MS) || 60 * 60 * 1000,
+};
+
+let purgeTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Permanently delete posts and users soft-deleted before the retention cutoff
+ * Only one app instance purges at a time (transaction-scoped advisory lock)
+ */
+export const purgeSoftDeleted = async (): Promise<{ posts: number; users: number } | null> => {
+  const cutoff = new Date(Date.now() - purgeConfig.retentionDays * 24 * 60 * 60 * 1000);
+
+  return withTransaction(async (tx) => {
+    const lock = await tx.execute<{ acquired: boolean }>(
+      sql`SELECT pg_try_advisory_xact_lock(hashtext('soft_delete_purge')) AS acquired`
+    );
+    if (!lock.rows[0]?.acquired) {
+      return null;
+    }
+
+    const purgedPosts = await tx
+      .delete(posts)
+      .where(and(isNotNull(posts.deletedAt), lt(posts.deletedAt, cutoff)))
+      .returning({ id: posts.id });
+
+    // Cascades to any remaining posts, sessions and accounts of the user
+    const purgedUsers = await tx
+      .delete(users)
+      .where(and(isNotNull(users.deletedAt), lt(users.deletedAt, cutoff)))
+      .returning({ id: users.id });
+
+    return { posts: purgedPosts.length, users: purgedUsers.length };
+  });
+};
+
+/**
+ * Start the periodic purge job (no-op if already running)
+ */
+export const startPurgeJob = (): void => {
+  if (purgeTimer) return;
+
+  const run = async () => {
+    try {
+      const purged = await purgeSoftDeleted();
+      if (purged && (purged.posts > 0 || purged.users > 0)) {
+        logger.info('Purged soft-deleted rows', purged);
+      }
+    } catch (error) {
+      logger.error('Soft delete purge failed', { error });
+    }
+  };
+
+  purgeTimer = setInterval(run, purgeConfig.intervalMs);
+  purgeTimer.unref();
+  void run();
+};
+
+/**
+ * Stop the periodic purge job
+ */
+export const stopPurgeJob = (): void => {
+  if (purgeTimer) {
+    clearInterval(purgeTimer);
+    purgeTimer = null;
+  }
+};
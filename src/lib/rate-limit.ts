@@ -0,0 +1,279 @@
+import { createHash } from 'node:crypto';
+import { and, eq, lt, sql } from 'drizzle-orm';
+import { dbPrimary } from '../config/database';
+import { rateLimits } from '../db/schema';
+import { TooManyRequestsError } from './errors';
+import { logger } from './logger';
+
+/**
+ * Sliding-window rate limiting
+ * Each counter keeps fixed windows; the sliding estimate is the current window's
+ * count plus the previous window's count weighted by how much of it still overlaps
+ */
+
+/**
+ * Rate limit configuration
+ * `memory` counts per process; `postgres` shares counters across app instances
+ */
+export const rateLimitConfig = {
+  store: (process.env.RATE_LIMIT_STORE === 'postgres' ? 'postgres' : 'memory') as 'memory' | 'postgres',
+  // Only enable behind a proxy that overwrites X-Forwarded-For
+  trustProxy: process.env.RATE_LIMIT_TRUST_PROXY === 'true',
+  login: {
+    perIp: Number(process.env.RATE_LIMIT_LOGIN_PER_IP) || 20,
+    perEmail: Number(process.env.RATE_LIMIT_LOGIN_PER_EMAIL) || 10,
+    windowMs: Number(process.env.RATE_LIMIT_LOGIN_WINDOW_MS) || 15 * 60 * 1000,
+  },
+  signup: {
+    perIp: Number(process.env.RATE_LIMIT_SIGNUP_PER_IP) || 5,
+    windowMs: Number(process.env.RATE_LIMIT_SIGNUP_WINDOW_MS) || 60 * 60 * 1000,
+  },
+  // Verification and password reset emails
+  email: {
+    perIp: Number(process.env.RATE_LIMIT_EMAIL_PER_IP) || 10,
+    perEmail: Number(process.env.RATE_LIMIT_EMAIL_PER_EMAIL) || 3,
+    windowMs: Number(process.env.RATE_LIMIT_EMAIL_WINDOW_MS) || 60 * 60 * 1000,
+  },
+  // Second login step, per IP and per pending challenge (or session while enrolling)
+  twoFactor: {
+    perIp: Number(process.env.RATE_LIMIT_TWO_FACTOR_PER_IP) || 20,
+    perChallenge: Number(process.env.RATE_LIMIT_TWO_FACTOR_PER_CHALLENGE) || 5,
+    windowMs: Number(process.env.RATE_LIMIT_TWO_FACTOR_WINDOW_MS) || 15 * 60 * 1000,
+  },
+  lockout: {
+    // Failed logins for one email before the account is locked
+    maxFailures: Number(process.env.LOGIN_LOCKOUT_THRESHOLD) || 5,
+    windowMs: Number(process.env.LOGIN_LOCKOUT_WINDOW_MS) || 15 * 60 * 1000,
+  },
+};
+
+/**
+ * Hit counts of the current and previous fixed window for one key
+ */
+interface WindowCounts {
+  current: number;
+  previous: number;
+}
+
+/**
+ * Counter storage backend
+ */
+interface RateLimitStore {
+  /** Count a hit in the window starting at `windowStart` */
+  increment(key: string, windowStart: number, windowMs: number): Promise<WindowCounts>;
+  /** Read the counts without adding a hit */
+  read(key: string, windowStart: number, windowMs: number): Promise<WindowCounts>;
+  /** Forget every window of the key */
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * Evaluated state of one counter, used for the RateLimit-* headers
+ */
+export interface RateLimitState {
+  limit: number;
+  windowMs: number;
+  remaining: number;
+  // Seconds until the current fixed window ends
+  reset: number;
+  // Seconds until another hit would be allowed (0 when not limited)
+  retryAfter: number;
+  limited: boolean;
+}
+
+/**
+ * In-process store; counters are lost on restart and not shared between instances
+ */
+const createMemoryStore = (): RateLimitStore => {
+  const counters = new Map<string, { windowMs: number; start: number; current: number; previous: number }>();
+
+  const windowsOf = (key: string, windowStart: number, windowMs: number) => {
+    const entry = counters.get(key);
+
+    if (entry && entry.windowMs === windowMs) {
+      if (entry.start === windowStart) return entry;
+      // The stored window is now the previous one
+      if (entry.start === windowStart - windowMs) {
+        return { windowMs, start: windowStart, current: 0, previous: entry.current };
+      }
+    }
+
+    return { windowMs, start: windowStart, current: 0, previous: 0 };
+  };
+
+  // Drop counters that no longer affect any estimate
+  const sweepTimer = setInterval(() => {
+    const now = Date.now();
+    for (const [key, entry] of counters) {
+      if (entry.start + 2 * entry.windowMs <= now) {
+        counters.delete(key);
+      }
+    }
+  }, 60 * 1000);
+  sweepTimer.unref();
+
+  return {
+    async increment(key, windowStart, windowMs) {
+      const entry = windowsOf(key, windowStart, windowMs);
+      entry.current += 1;
+      counters.set(key, entry);
+      return { current: entry.current, previous: entry.previous };
+    },
+    async read(key, windowStart, windowMs) {
+      const { current, previous } = windowsOf(key, windowStart, windowMs);
+      return { current, previous };
+    },
+    async reset(key) {
+      counters.delete(key);
+    },
+  };
+};
+
+/**
+ * Postgres store on the primary, so every app instance sees the same counters
+ */
+const createPostgresStore = (): RateLimitStore => {
+  let longestWindowMs = 0;
+  let lastPrunedAt = 0;
+
+  // Opportunistically delete windows older than any estimate can use, at most once a minute
+  const prune = (now: number, windowMs: number) => {
+    longestWindowMs = Math.max(longestWindowMs, windowMs);
+    if (now - lastPrunedAt < 60 * 1000) return;
+    lastPrunedAt = now;
+
+    dbPrimary
+      .delete(rateLimits)
+      .where(lt(rateLimits.windowStart, new Date(now - 2 * longestWindowMs)))
+      .catch((error) => logger.error('Rate limit prune failed', { error }));
+  };
+
+  const readWindow = async (key: string, windowStart: number): Promise<number> => {
+    const [row] = await dbPrimary
+      .select({ count: rateLimits.count })
+      .from(rateLimits)
+      .where(and(eq(rateLimits.key, key), eq(rateLimits.windowStart, new Date(windowStart))));
+    return row?.count ?? 0;
+  };
+
+  return {
+    async increment(key, windowStart, windowMs) {
+      prune(Date.now(), windowMs);
+
+      const [row] = await dbPrimary
+        .insert(rateLimits)
+        .values({ key, windowStart: new Date(windowStart), count: 1 })
+        .onConflictDoUpdate({
+          target: [rateLimits.key, rateLimits.windowStart],
+          set: { count: sql`${rateLimits.count} + 1` },
+        })
+        .returning({ count: rateLimits.count });
+
+      return { current: row?.count ?? 1, previous: await readWindow(key, windowStart - windowMs) };
+    },
+    async read(key, windowStart, windowMs) {
+      const [current, previous] = await Promise.all([
+        readWindow(key, windowStart),
+        readWindow(key, windowStart - windowMs),
+      ]);
+      return { current, previous };
+    },
+    async reset(key) {
+      await dbPrimary.delete(rateLimits).where(eq(rateLimits.key, key));
+    },
+  };
+};
+
+const store: RateLimitStore = rateLimitConfig.store === 'postgres' ? createPostgresStore() : createMemoryStore();
+
+/**
+ * Counter key; the identifier is hashed so IPs, emails and tokens are never stored
+ */
+const counterKey = (name: string, identifier: string): string => {
+  return `${name}:${createHash('sha256').update(identifier).digest('hex')}`;
+};
+
+/**
+ * Turn window counts into the sliding estimate and headers
+ * `allowed` is the highest estimate at which another hit is still permitted
+ */
+const evaluate = (counts: WindowCounts, limit: number, windowMs: number, now: number, allowed: number): RateLimitState => {
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const elapsed = (now - windowStart) / windowMs;
+  const resetMs = windowStart + windowMs - now;
+  const estimate = counts.current + counts.previous * (1 - elapsed);
+  const limited = estimate > allowed;
+
+  let retryAfterMs = 0;
+  if (limited) {
+    if (counts.current <= allowed) {
+      // The previous window's share decays enough before this window ends
+      retryAfterMs = ((1 - (allowed - counts.current) / counts.previous) - elapsed) * windowMs;
+    } else {
+      // This window's hits become the previous window and have to decay in the next one
+      retryAfterMs = resetMs + (1 - allowed / counts.current) * windowMs;
+    }
+  }
+
+  return {
+    limit,
+    windowMs,
+    remaining: Math.max(0, Math.floor(limit - estimate)),
+    reset: Math.ceil(resetMs / 1000),
+    retryAfter: limited ? Math.max(1, Math.ceil(retryAfterMs / 1000)) : 0,
+    limited,
+  };
+};
+
+/**
+ * Count a hit against `name:identifier`; limited once the estimate exceeds `limit`
+ * Rejected hits are counted too, so clients that keep retrying stay limited
+ */
+export const consumeRateLimit = async (
+  name: string,
+  identifier: string,
+  limit: number,
+  windowMs: number
+): Promise<RateLimitState> => {
+  const now = Date.now();
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const counts = await store.increment(counterKey(name, identifier), windowStart, windowMs);
+
+  return evaluate(counts, limit, windowMs, now, limit);
+};
+
+/**
+ * Throw if too many logins for the email failed recently
+ */
+export const assertNotLockedOut = async (email: string): Promise<void> => {
+  const { maxFailures, windowMs } = rateLimitConfig.lockout;
+  const now = Date.now();
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const counts = await store.read(counterKey('login-failures', email.toLowerCase()), windowStart, windowMs);
+
+  // Locked from the maxFailures-th failure on
+  const state = evaluate(counts, maxFailures, windowMs, now, maxFailures - 1);
+  if (state.limited) {
+    throw new TooManyRequestsError(
+      'Account temporarily locked after repeated failed logins',
+      state.retryAfter,
+      'account_locked'
+    );
+  }
+};
+
+/**
+ * Record a failed login for the email
+ */
+export const recordLoginFailure = async (email: string): Promise<void> => {
+  const { windowMs } = rateLimitConfig.lockout;
+  const windowStart = Math.floor(Date.now() / windowMs) * windowMs;
+  await store.increment(counterKey('login-failures', email.toLowerCase()), windowStart, windowMs);
+};
+
+/**
+ * Clear the failed login count after a successful login
+ */
+export const clearLoginFailures = async (email: string): Promise<void> => {
+  await store.reset(counterKey('login-failures', email.toLowerCase()));
+};
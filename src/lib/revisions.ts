@@ -0,0 +1,43 @@
+import { eq, max } from 'drizzle-orm';
+import type { Transaction } from '../config/database';
+import { postRevisions, posts } from '../db/schema';
+
+/**
+ * Snapshot a post's current state as its next revision
+ * Must run inside the transaction that updates the post, after the post row
+ * is locked with FOR UPDATE (the lock serializes revision numbering per post)
+ * @param tx - Primary transaction
+ * @param postId - Post about to be updated
+ * @param editorId - User performing the update
+ */
+export const recordPostRevision = async (
+  tx: Transaction,
+  postId: string,
+  editorId: string
+): Promise<void> => {
+  const [current] = await tx
+    .select({
+      title: posts.title,
+      content: posts.content,
+      published: posts.published,
+    })
+    .from(posts)
+    .where(eq(posts.id, postId))
+    .limit(1);
+
+  if (!current) return;
+
+  const [latest] = await tx
+    .select({ revision: max(postRevisions.revision) })
+    .from(postRevisions)
+    .where(eq(postRevisions.postId, postId));
+
+  await tx.insert(postRevisions).values({
+    postId,
+    revision: (latest?.revision ?? 0) + 1,
+    title: current.title,
+    content: current.content,
+    published: current.published,
+    editorId,
+  });
+};
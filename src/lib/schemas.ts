@@ -0,0 +1,285 @@
+import { t, type TSchema } from 'elysia';
+import { apiTokenScopes, userRoles } from '../db/schema';
+import { deviceTypes } from './user-agent';
+import { paginationResponse } from './pagination';
+
+/**
+ * Response schemas shared by the route modules
+ * Used for the OpenAPI document and to strip unlisted fields from responses
+ */
+
+/**
+ * RFC 7807 problem details returned for every error
+ */
+export const problemDetailsSchema = t.Object(
+  {
+    type: t.String({ description: 'URI identifying the problem type' }),
+    title: t.String(),
+    status: t.Integer(),
+    detail: t.String(),
+    instance: t.String({ description: 'Request path' }),
+    code: t.String({ description: 'Stable machine-readable error code' }),
+    success: t.Literal(false),
+    errors: t.Optional(
+      t.Array(
+        t.Object({
+          path: t.Optional(t.String()),
+          message: t.Optional(t.String()),
+        })
+      )
+    ),
+  },
+  { description: 'Error response (application/problem+json)' }
+);
+
+/**
+ * Problem details for each listed error status
+ */
+export const errorResponses = <Status extends number>(...statuses: Status[]) =>
+  Object.fromEntries(statuses.map((status) => [status, problemDetailsSchema])) as Record<
+    Status,
+    typeof problemDetailsSchema
+  >;
+
+/**
+ * `{ success: true, data }` envelope
+ */
+export const dataEnvelope = <Data extends TSchema>(data: Data) =>
+  t.Object({
+    success: t.Literal(true),
+    data,
+  });
+
+/**
+ * `{ success: true, data: [...], pagination }` envelope for listings
+ */
+export const pageEnvelope = <Item extends TSchema>(item: Item) =>
+  t.Object({
+    success: t.Literal(true),
+    data: t.Array(item),
+    pagination: paginationResponse,
+  });
+
+/**
+ * `{ success: true, message, data }` envelope for writes
+ */
+export const messageEnvelope = <Data extends TSchema>(data: Data) =>
+  t.Object({
+    success: t.Literal(true),
+    message: t.String(),
+    data,
+  });
+
+/**
+ * `{ success: true, message }` envelope for writes without a body
+ */
+export const messageOnlyEnvelope = t.Object({
+  success: t.Literal(true),
+  message: t.String(),
+});
+
+export const userSchema = t.Object({
+  id: t.String({ format: 'uuid' }),
+  name: t.String(),
+  email: t.String({ format: 'email' }),
+  emailVerified: t.Boolean(),
+  image: t.Nullable(t.String()),
+  role: t.UnionEnum(userRoles),
+  version: t.Integer({ description: 'Row version, also sent as the ETag' }),
+  createdAt: t.Date(),
+  updatedAt: t.Date(),
+});
+
+export const userRoleSchema = t.Pick(userSchema, ['id', 'name', 'email', 'role', 'version', 'updatedAt']);
+
+export const postSchema = t.Object({
+  id: t.String({ format: 'uuid' }),
+  title: t.String(),
+  content: t.String(),
+  published: t.Boolean(),
+  version: t.Integer({ description: 'Row version, also sent as the ETag' }),
+  authorId: t.String({ format: 'uuid' }),
+  tags: t.Array(t.String(), { description: 'Tag names, sorted' }),
+  createdAt: t.Date(),
+  updatedAt: t.Date(),
+});
+
+export const postWithAuthorSchema = t.Composite([
+  postSchema,
+  t.Object({
+    author: t.Object({
+      id: t.String({ format: 'uuid' }),
+      name: t.String(),
+      email: t.String({ format: 'email' }),
+      image: t.Nullable(t.String()),
+    }),
+  }),
+]);
+
+export const postListItemSchema = t.Composite([
+  postWithAuthorSchema,
+  t.Object({
+    commentCount: t.Integer({ description: 'Comments that are neither hidden nor deleted' }),
+  }),
+]);
+
+export const tagSchema = t.Object({
+  name: t.String(),
+  postCount: t.Integer({ description: 'Posts (not deleted) carrying the tag' }),
+});
+
+export const commentSchema = t.Object({
+  id: t.String({ format: 'uuid' }),
+  postId: t.String({ format: 'uuid' }),
+  parentId: t.Nullable(t.String({ format: 'uuid' })),
+  content: t.Nullable(t.String({ description: 'Null when deleted, or hidden from this reader' })),
+  hidden: t.Boolean(),
+  deleted: t.Boolean(),
+  author: t.Object({
+    id: t.String({ format: 'uuid' }),
+    name: t.String(),
+    image: t.Nullable(t.String()),
+  }),
+  createdAt: t.Date(),
+  updatedAt: t.Date(),
+});
+
+const revisionEditorSchema = t.Nullable(
+  t.Object({
+    id: t.String({ format: 'uuid' }),
+    name: t.String(),
+  })
+);
+
+export const revisionSummarySchema = t.Object({
+  id: t.String({ format: 'uuid' }),
+  revision: t.Integer(),
+  title: t.String(),
+  published: t.Boolean(),
+  createdAt: t.Date(),
+  editor: revisionEditorSchema,
+});
+
+export const revisionDetailSchema = t.Object({
+  id: t.String({ format: 'uuid' }),
+  postId: t.String({ format: 'uuid' }),
+  revision: t.Integer(),
+  title: t.String(),
+  content: t.String(),
+  published: t.Boolean(),
+  createdAt: t.Date(),
+  editor: revisionEditorSchema,
+  diff: t.Object({
+    title: t.String({ description: 'Unified diff from the revision to the current title' }),
+    content: t.String({ description: 'Unified diff from the revision to the current content' }),
+  }),
+});
+
+export const sessionInfoSchema = t.Object({
+  id: t.String(),
+  ipAddress: t.Nullable(t.String()),
+  userAgent: t.Nullable(t.String()),
+  device: t.Object({
+    browser: t.Nullable(t.String()),
+    os: t.Nullable(t.String()),
+    type: t.UnionEnum(deviceTypes),
+  }),
+  current: t.Boolean({ description: 'Whether this is the session making the request' }),
+  createdAt: t.Date(),
+  lastActiveAt: t.Date({ description: 'Last session refresh (at most once a day)' }),
+  expiresAt: t.Date(),
+});
+
+/**
+ * Number of sessions a revoke call deleted
+ */
+export const revokedSessionsSchema = t.Object({
+  revoked: t.Integer(),
+});
+
+export const apiTokenSchema = t.Object({
+  id: t.String({ format: 'uuid' }),
+  name: t.String(),
+  prefix: t.String({ description: 'First characters of the token' }),
+  scopes: t.Array(t.UnionEnum(apiTokenScopes)),
+  expiresAt: t.Nullable(t.Date()),
+  lastUsedAt: t.Nullable(t.Date()),
+  createdAt: t.Date(),
+});
+
+/**
+ * Newly created token; the only response that contains the token itself
+ */
+export const createdApiTokenSchema = t.Composite([
+  apiTokenSchema,
+  t.Object({
+    token: t.String({ description: 'Send as `Authorization: Bearer <token>`; it cannot be retrieved again' }),
+  }),
+]);
+
+/**
+ * Sign-in method linked to a user; `credential` is the email and password
+ */
+export const linkedAccountSchema = t.Object({
+  id: t.String({ format: 'uuid' }),
+  providerId: t.String(),
+  accountId: t.String({ description: 'User id at the provider' }),
+  scopes: t.Array(t.String()),
+  createdAt: t.Date(),
+  updatedAt: t.Date(),
+});
+
+/**
+ * Provider authorization URL to send the browser to
+ */
+export const oauthRedirectSchema = t.Object({
+  url: t.String(),
+  redirect: t.Boolean(),
+});
+
+/**
+ * User as returned by Better-Auth (session and sign-in responses)
+ */
+export const authUserSchema = t.Object({
+  id: t.String(),
+  name: t.String(),
+  email: t.String({ format: 'email' }),
+  emailVerified: t.Boolean(),
+  image: t.Optional(t.Nullable(t.String())),
+  role: t.Optional(t.Nullable(t.String())),
+  twoFactorEnabled: t.Optional(t.Nullable(t.Boolean())),
+  createdAt: t.Date(),
+  updatedAt: t.Date(),
+});
+
+/**
+ * Better-Auth sign-up / sign-in result; `token` also works as a bearer token
+ */
+export const authResultSchema = t.Object({
+  redirect: t.Optional(t.Boolean()),
+  token: t.Nullable(t.String()),
+  url: t.Optional(t.String()),
+  user: authUserSchema,
+});
+
+/**
+ * Login result when the account has two-factor authentication enabled
+ */
+export const twoFactorChallengeSchema = t.Object({
+  twoFactorRequired: t.Literal(true),
+  twoFactorToken: t.Nullable(
+    t.String({ description: 'Pass to /auth/two-factor/verify* when the client does not keep cookies' })
+  ),
+});
+
+/**
+ * TOTP enrollment: provisioning URI for authenticator apps plus one-time backup codes
+ */
+export const twoFactorEnrollmentSchema = t.Object({
+  totpURI: t.String({ description: 'otpauth:// provisioning URI; render it as a QR code' }),
+  backupCodes: t.Array(t.String()),
+});
+
+export const backupCodesSchema = t.Object({
+  backupCodes: t.Array(t.String()),
+});
@@ -0,0 +1,93 @@
+import { eq, inArray, sql, type SQL } from 'drizzle-orm';
+import { QueryBuilder } from 'drizzle-orm/pg-core';
+import type { Transaction } from '../config/database';
+import { postTags, posts, tags } from '../db/schema';
+
+/**
+ * Post tags
+ * Tags are created on first use and matched case-insensitively by name
+ */
+
+export type TagMatch = 'any' | 'all';
+
+// Builds subqueries without a connection; they run on whichever database the outer query uses
+const queryBuilder = new QueryBuilder();
+
+/**
+ * Normalize tag names: trim, collapse inner whitespace, lowercase; drop blanks and duplicates
+ */
+export const normalizeTagNames = (names: string[]): string[] => {
+  const normalized = names.map((name) => name.trim().replace(/\s+/g, ' ').toLowerCase()).filter(Boolean);
+  return [...new Set(normalized)].sort();
+};
+
+/**
+ * Sorted tag names of the post in the current row, for use in a select list
+ */
+export const postTagNames: SQL<string[]> = sql<string[]>`coalesce(${queryBuilder
+  .select({ names: sql`array_agg(${tags.name} order by ${tags.name})` })
+  .from(postTags)
+  .innerJoin(tags, eq(postTags.tagId, tags.id))
+  .where(eq(postTags.postId, posts.id))}, '{}')`;
+
+/**
+ * Filter posts by tag names: `any` matches posts with at least one of them, `all` posts with every one
+ * @param names - Tag names as sent by the client
+ * @param match - Match semantics
+ */
+export const postTagFilter = (names: string[], match: TagMatch): SQL | undefined => {
+  const normalized = normalizeTagNames(names);
+  if (normalized.length === 0) return undefined;
+
+  const tagged = queryBuilder
+    .select({ postId: postTags.postId })
+    .from(postTags)
+    .innerJoin(tags, eq(postTags.tagId, tags.id))
+    .where(inArray(tags.name, normalized))
+    .groupBy(postTags.postId);
+
+  // (post_id, tag_id) is unique, so a post carrying every tag has one row per name
+  return inArray(posts.id, match === 'all' ? tagged.having(sql`count(*) = ${normalized.length}`) : tagged);
+};
+
+/**
+ * Replace the tags of a post, creating tags that do not exist yet
+ * Must run inside the transaction that writes the post
+ * @param tx - Primary transaction
+ * @param postId - Post being written
+ * @param names - Tag names as sent by the client
+ * @returns The post's normalized tag names, sorted
+ */
+export const setPostTags = async (tx: Transaction, postId: string, names: string[]): Promise<string[]> => {
+  const normalized = normalizeTagNames(names);
+
+  await tx.delete(postTags).where(eq(postTags.postId, postId));
+  if (normalized.length === 0) return [];
+
+  // Concurrent writers may create the same tag; the loser reuses the winner's row
+  await tx
+    .insert(tags)
+    .values(normalized.map((name) => ({ name })))
+    .onConflictDoNothing({ target: tags.name });
+
+  const tagRows = await tx.select({ id: tags.id }).from(tags).where(inArray(tags.name, normalized));
+  await tx.insert(postTags).values(tagRows.map((tag) => ({ postId, tagId: tag.id })));
+
+  return normalized;
+};
+
+/**
+ * Current tag names of a post, sorted
+ * @param tx - Primary transaction
+ * @param postId - Post to read
+ */
+export const getPostTags = async (tx: Transaction, postId: string): Promise<string[]> => {
+  const rows = await tx
+    .select({ name: tags.name })
+    .from(postTags)
+    .innerJoin(tags, eq(postTags.tagId, tags.id))
+    .where(eq(postTags.postId, postId))
+    .orderBy(tags.name);
+
+  return rows.map((row) => row.name);
+};
@@ -0,0 +1,207 @@
+import { appendFileSync, mkdirSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import {
+  isSpanContextValid,
+  propagation,
+  ROOT_CONTEXT,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+  type Attributes,
+  type Context,
+  type Span,
+} from '@opentelemetry/api';
+import { ExportResultCode, hrTimeToMilliseconds, W3CTraceContextPropagator } from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BasicTracerProvider,
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+  type SpanExporter,
+} from '@opentelemetry/sdk-trace-base';
+import {
+  ATTR_DB_OPERATION_NAME,
+  ATTR_DB_QUERY_TEXT,
+  ATTR_DB_SYSTEM_NAME,
+  ATTR_SERVICE_NAME,
+  ATTR_SERVICE_VERSION,
+} from '@opentelemetry/semantic-conventions';
+import { requestContext } from './logger';
+
+/**
+ * OpenTelemetry tracing
+ * A server span per request (parented to an incoming W3C `traceparent`) with a
+ * client span per database query; the request's trace context travels in the
+ * same per-request store as the log context
+ */
+
+export const traceExporters = ['otlp', 'console', 'file', 'none'] as const;
+export type TraceExporter = (typeof traceExporters)[number];
+
+/**
+ * Tracing configuration
+ * `otlp` honours the standard OTEL_EXPORTER_OTLP_* variables (endpoint, headers)
+ */
+export const tracingConfig = {
+  exporter: (traceExporters.includes(process.env.OTEL_TRACES_EXPORTER as TraceExporter)
+    ? process.env.OTEL_TRACES_EXPORTER
+    : 'none') as TraceExporter,
+  serviceName: process.env.OTEL_SERVICE_NAME || 'demo-backend',
+  // JSON lines written by the `file` exporter
+  file: process.env.OTEL_TRACES_FILE || '.traces/spans.jsonl',
+};
+
+/**
+ * Finished span as written by the file exporter
+ */
+export interface FileSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId: string | null;
+  name: string;
+  kind: string;
+  startTime: string;
+  durationMs: number;
+  status: { code: 'unset' | 'ok' | 'error'; message?: string };
+  attributes: Attributes;
+  events: Array<{ name: string; attributes?: Attributes }>;
+}
+
+const statusCodes = { [SpanStatusCode.UNSET]: 'unset', [SpanStatusCode.OK]: 'ok', [SpanStatusCode.ERROR]: 'error' } as const;
+
+const toFileSpan = (span: ReadableSpan): FileSpan => ({
+  traceId: span.spanContext().traceId,
+  spanId: span.spanContext().spanId,
+  parentSpanId: span.parentSpanContext?.spanId ?? null,
+  name: span.name,
+  kind: SpanKind[span.kind].toLowerCase(),
+  startTime: new Date(hrTimeToMilliseconds(span.startTime)).toISOString(),
+  durationMs: Math.round(hrTimeToMilliseconds(span.duration) * 100) / 100,
+  status: { code: statusCodes[span.status.code], ...(span.status.message && { message: span.status.message }) },
+  attributes: span.attributes,
+  events: span.events.map((event) => ({ name: event.name, attributes: event.attributes })),
+});
+
+/**
+ * Append finished spans to a JSON lines file, so tests can assert on traces without a collector
+ */
+export const createFileSpanExporter = (file: string): SpanExporter => {
+  mkdirSync(dirname(file), { recursive: true });
+
+  return {
+    export(spans, resultCallback) {
+      try {
+        // Synchronous, so spans are on disk once the request has finished
+        appendFileSync(file, spans.map((span) => `${JSON.stringify(toFileSpan(span))}\n`).join(''));
+        resultCallback({ code: ExportResultCode.SUCCESS });
+      } catch (error) {
+        resultCallback({ code: ExportResultCode.FAILED, error: error as Error });
+      }
+    },
+    async shutdown() {},
+  };
+};
+
+/**
+ * Read spans written by the file exporter, optionally only those of one trace
+ */
+export const readSpans = async (file: string = tracingConfig.file, traceId?: string): Promise<FileSpan[]> => {
+  const content = await readFile(file, 'utf8').catch(() => '');
+  const spans = content
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line) as FileSpan);
+
+  return traceId ? spans.filter((span) => span.traceId === traceId) : spans;
+};
+
+const createProvider = (): BasicTracerProvider | null => {
+  if (tracingConfig.exporter === 'none') return null;
+
+  // Batching for the network exporter; console and file output each span as it ends
+  const spanProcessor =
+    tracingConfig.exporter === 'otlp'
+      ? new BatchSpanProcessor(new OTLPTraceExporter())
+      : new SimpleSpanProcessor(
+          tracingConfig.exporter === 'console' ? new ConsoleSpanExporter() : createFileSpanExporter(tracingConfig.file)
+        );
+
+  return new BasicTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: tracingConfig.serviceName,
+      [ATTR_SERVICE_VERSION]: '1.0.0',
+    }),
+    spanProcessors: [spanProcessor],
+  });
+};
+
+// Without an exporter the API's no-op tracer is used, so spans cost next to nothing
+const provider = createProvider();
+if (provider) {
+  trace.setGlobalTracerProvider(provider);
+}
+propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+
+export const tracer = trace.getTracer('demo-backend');
+
+/**
+ * Trace context of the current request (root outside of requests)
+ */
+export const activeTraceContext = (): Context => requestContext.getStore()?.traceContext ?? ROOT_CONTEXT;
+
+/**
+ * Make `span` the parent of spans started later in the current request
+ */
+export const setRequestSpan = (parent: Context, span: Span): void => {
+  const context = requestContext.getStore();
+  if (!context) return;
+
+  context.traceContext = trace.setSpan(parent, span);
+  if (isSpanContextValid(span.spanContext())) {
+    context.traceId = span.spanContext().traceId;
+  }
+};
+
+/**
+ * Start a client span for one SQL statement, child of the current request's span
+ * The statement is parameterized, so its text carries no values
+ */
+export const startQuerySpan = (sql: string, attributes: Attributes): Span => {
+  const operation = sql.trimStart().split(/\s+/, 1)[0]?.toUpperCase() || 'QUERY';
+
+  return tracer.startSpan(
+    operation,
+    {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        [ATTR_DB_SYSTEM_NAME]: 'postgresql',
+        [ATTR_DB_OPERATION_NAME]: operation,
+        [ATTR_DB_QUERY_TEXT]: sql,
+        ...attributes,
+      },
+    },
+    activeTraceContext()
+  );
+};
+
+/**
+ * End a span, marking it failed when `error` is set
+ */
+export const endSpan = (span: Span, error?: unknown): void => {
+  if (error) {
+    span.recordException(error instanceof Error ? error : String(error));
+    span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+  }
+  span.end();
+};
+
+/**
+ * Flush and stop the exporter (graceful shutdown)
+ */
+export const shutdownTracing = async (): Promise<void> => {
+  await provider?.shutdown();
+};
@@ -0,0 +1,39 @@
+import { auth } from './auth';
+
+/**
+ * Two-factor login challenge helpers
+ * Better-Auth tracks a pending second step in a signed `two_factor` cookie; the same
+ * value is handed out as `twoFactorToken` so clients without a cookie jar can finish the login
+ */
+
+const TWO_FACTOR_COOKIE = 'two_factor';
+
+/**
+ * Challenge token from the Set-Cookie headers of a sign-in response
+ */
+export const twoFactorTokenFrom = (headers: Headers): string | null => {
+  for (const cookie of headers.getSetCookie()) {
+    const [pair = ''] = cookie.split(';');
+    const separator = pair.indexOf('=');
+    const name = pair.slice(0, separator);
+
+    if (name.endsWith(`.${TWO_FACTOR_COOKIE}`) && separator < pair.length - 1) {
+      return pair.slice(separator + 1);
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Copy of the request headers with the challenge token sent as the two-factor cookie
+ */
+export const withTwoFactorToken = async (headers: Headers, token?: string): Promise<Headers> => {
+  const result = new Headers(headers);
+  if (!token) return result;
+
+  const { name } = (await auth.$context).createAuthCookie(TWO_FACTOR_COOKIE);
+  const cookie = headers.get('cookie');
+  result.set('cookie', cookie ? `${cookie}; ${name}=${token}` : `${name}=${token}`);
+  return result;
+};
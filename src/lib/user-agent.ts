@@ -0,0 +1,57 @@
+/**
+ * Coarse device information from a User-Agent header, for session listings
+ */
+
+export const deviceTypes = ['desktop', 'mobile', 'tablet', 'bot', 'unknown'] as const;
+export type DeviceType = (typeof deviceTypes)[number];
+
+export interface DeviceInfo {
+  browser: string | null;
+  os: string | null;
+  type: DeviceType;
+}
+
+// First match wins, so more specific tokens come first (Edge and Opera also send "Chrome/")
+const browsers: Array<[name: string, pattern: RegExp]> = [
+  ['Edge', /Edg(?:e|A|iOS)?\/(\d+)/],
+  ['Opera', /OPR\/(\d+)/],
+  ['Firefox', /(?:Firefox|FxiOS)\/(\d+)/],
+  ['Chrome', /(?:Chrome|CriOS)\/(\d+)/],
+  ['Safari', /Version\/(\d+)[^ ]* (?:Mobile\/\S+ )?Safari\//],
+  ['curl', /curl\/(\d+)/],
+];
+
+const operatingSystems: Array<[name: string, pattern: RegExp]> = [
+  ['Windows', /Windows NT/],
+  ['iOS', /iPhone|iPad|iPod/],
+  ['Android', /Android/],
+  ['ChromeOS', /CrOS/],
+  ['macOS', /Mac OS X|Macintosh/],
+  ['Linux', /Linux/],
+];
+
+/**
+ * Parse browser, OS and device type; unknown parts are null / 'unknown'
+ */
+export const parseUserAgent = (userAgent: string | null): DeviceInfo => {
+  if (!userAgent) {
+    return { browser: null, os: null, type: 'unknown' };
+  }
+
+  const browserMatch = browsers.find(([, pattern]) => pattern.test(userAgent));
+  const browser = browserMatch ? `${browserMatch[0]} ${userAgent.match(browserMatch[1])?.[1]}` : null;
+  const os = operatingSystems.find(([, pattern]) => pattern.test(userAgent))?.[0] ?? null;
+
+  let type: DeviceType = 'unknown';
+  if (/bot|crawler|spider/i.test(userAgent)) {
+    type = 'bot';
+  } else if (/iPad|Tablet/i.test(userAgent) || (os === 'Android' && !/Mobile/.test(userAgent))) {
+    type = 'tablet';
+  } else if (/Mobi|iPhone|iPod/.test(userAgent)) {
+    type = 'mobile';
+  } else if (os) {
+    type = 'desktop';
+  }
+
+  return { browser, os, type };
+};
@@ -1,26 +1,52 @@
 import type { Context } from 'elysia';
-import { getUserFromSession } from '../lib/auth';
+import type { ApiTokenScope } from '../db/schema';
+import { verifySession } from '../lib/auth';
+import { hasScopes, isApiToken, verifyApiToken } from '../lib/api-tokens';
+import { hasPermission, type Permission } from '../lib/permissions';
+import { setRequestUser } from '../lib/logger';
+import { ForbiddenError, UnauthorizedError } from '../lib/errors';
 
-/**
- * Custom error for unauthorized access
- */
-export class UnauthorizedError extends Error {
-  constructor(message: string = 'Unauthorized') {
-    super(message);
-    this.name = 'UnauthorizedError';
-  }
-}
+// Re-exported for modules that import it alongside authMiddleware
+export { UnauthorizedError };
 
 /**
  * Authentication middleware for protected routes
- * Verifies session and attaches user to context
+ * Verifies the session (or personal API token) and attaches user to context
  */
-export const authMiddleware = async (context: Context) => {
+export const authMiddleware = async (context: Context): Promise<AuthContext> => {
   const headers: Record<string, string | undefined> = {};
   
   // Extract headers from request
   const authHeader = context.request.headers.get('authorization');
   const cookieHeader = context.request.headers.get('cookie');
+
+  // Personal API tokens are resolved here; Better-Auth only knows session tokens
+  const bearerToken = authHeader?.startsWith('Bearer ') ? authHeader.slice('Bearer '.length) : null;
+  if (bearerToken && isApiToken(bearerToken)) {
+    const resolved = await verifyApiToken(bearerToken);
+
+    if (!resolved) {
+      throw new UnauthorizedError('Invalid or expired API token');
+    }
+
+    const { token, user } = resolved;
+    setRequestUser(user.id);
+    return {
+      user,
+      // No Better-Auth session behind a token; the id keys read-your-writes routing
+      session: {
+        id: `api-token:${token.id}`,
+        token: '',
+        userId: user.id,
+        expiresAt: token.expiresAt ?? new Date(8640000000000000),
+        createdAt: token.createdAt,
+        updatedAt: token.createdAt,
+        ipAddress: null,
+        userAgent: null,
+      },
+      apiToken: { id: token.id, scopes: token.scopes },
+    };
+  }
   
   if (authHeader) {
     headers['authorization'] = authHeader;
@@ -31,24 +57,31 @@ export const authMiddleware = async (context: Context) => {
   }
 
   // Verify session and get user
-  const user = await getUserFromSession(headers);
+  const session = await verifySession(headers);
 
-  if (!user) {
+  if (!session?.user) {
     throw new UnauthorizedError('Authentication required');
   }
 
-  // Attach user to context for route handlers
+  setRequestUser(session.user.id);
+
+  // Attach user and session to context for route handlers
   return {
-    user,
+    user: session.user,
+    session: session.session,
+    apiToken: null,
   };
 };
 
 /**
  * Type for authenticated context
  */
-export interface AuthContext {
-  user: NonNullable<Awaited<ReturnType<typeof getUserFromSession>>>;
-}
+export type AuthContext = {
+  user: NonNullable<Awaited<ReturnType<typeof verifySession>>>['user'];
+  session: NonNullable<Awaited<ReturnType<typeof verifySession>>>['session'];
+  // Set when the request authenticated with a personal API token
+  apiToken: { id: string; scopes: ApiTokenScope[] } | null;
+};
 
 /**
  * Helper to check if user is authenticated
@@ -56,3 +89,40 @@ export interface AuthContext {
 export const isAuthenticated = (context: Context): context is Context & AuthContext => {
   return 'user' in context && context.user !== null;
 };
+
+/**
+ * Permission guard for routes behind authMiddleware
+ * Use as `beforeHandle: requirePermission('users:update:role')`;
+ * throws ForbiddenError (403) unless the user's role grants every listed permission
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  return ({ user }: AuthContext) => {
+    const allowed = permissions.every((permission) => hasPermission(user.role, permission));
+
+    if (!allowed) {
+      throw new ForbiddenError('Insufficient permissions');
+    }
+  };
+};
+
+/**
+ * Scope guard for routes behind authMiddleware
+ * Use as `beforeHandle: requireScope('posts:write')`; session requests pass,
+ * API token requests need every listed scope (403 otherwise)
+ */
+export const requireScope = (...scopes: ApiTokenScope[]) => {
+  return ({ apiToken }: Pick<AuthContext, 'apiToken'>) => {
+    if (apiToken && !hasScopes(apiToken.scopes, scopes)) {
+      throw new ForbiddenError(`API token is missing required scope: ${scopes.join(', ')}`);
+    }
+  };
+};
+
+/**
+ * Guard for routes that API tokens must never reach (e.g. managing tokens or sessions)
+ */
+export const requireSession = ({ apiToken }: Pick<AuthContext, 'apiToken'>) => {
+  if (apiToken) {
+    throw new ForbiddenError('This endpoint requires a login session, not an API token');
+  }
+};
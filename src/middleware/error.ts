@@ -0,0 +1,97 @@
+import { Elysia, type Static } from 'elysia';
+import { AppError, fromDatabaseError, TooManyRequestsError, ValidationError } from '../lib/errors';
+import { logger } from '../lib/logger';
+import { problemDetailsSchema } from '../lib/schemas';
+
+/**
+ * RFC 7807 problem details, with a stable `code` and the `success: false`
+ * flag shared with success envelopes
+ */
+export type ProblemDetails = Static<typeof problemDetailsSchema>;
+
+const problem = (
+  status: number,
+  code: string,
+  title: string,
+  detail: string,
+  instance: string,
+  errors?: ProblemDetails['errors']
+): ProblemDetails => ({
+  type: `urn:problem-type:${code}`,
+  title,
+  status,
+  detail,
+  instance,
+  code,
+  success: false,
+  ...(errors !== undefined && { errors }),
+});
+
+/**
+ * Better-Auth API errors carry their own HTTP status and code
+ */
+const isBetterAuthError = (
+  error: unknown
+): error is Error & { statusCode: number; body?: { code?: string; message?: string } } => {
+  return error instanceof Error && error.name === 'APIError' && typeof (error as { statusCode?: unknown }).statusCode === 'number';
+};
+
+/**
+ * Convert any thrown error into problem details
+ */
+export const toProblem = (code: string | number, error: unknown, instance: string): ProblemDetails => {
+  if (error instanceof AppError) {
+    const errors = error instanceof ValidationError ? error.errors : undefined;
+    return problem(error.status, error.code, error.title, error.message, instance, errors);
+  }
+
+  switch (code) {
+    case 'VALIDATION': {
+      // A handler returned data that does not match its response schema
+      if ((error as { type?: unknown }).type === 'response') break;
+
+      // Keep the field path and message; the raw TypeBox errors embed whole schemas
+      const all = (error as { all?: Array<{ path?: string; summary?: string; message?: string }> }).all ?? [];
+      const errors = all.map((issue) => ({ path: issue.path, message: issue.summary ?? issue.message }));
+      return problem(400, 'validation_failed', 'Validation Error', 'Request validation failed', instance, errors);
+    }
+    case 'PARSE':
+      return problem(400, 'invalid_body', 'Bad Request', 'Request body could not be parsed', instance);
+    case 'NOT_FOUND':
+      return problem(404, 'route_not_found', 'Not Found', 'Route not found', instance);
+  }
+
+  if (isBetterAuthError(error)) {
+    const authCode = error.body?.code?.toLowerCase() ?? 'auth_error';
+    return problem(error.statusCode, authCode, 'Authentication Error', error.body?.message ?? error.message, instance);
+  }
+
+  const databaseError = fromDatabaseError(error);
+  if (databaseError) {
+    return problem(databaseError.status, databaseError.code, databaseError.title, databaseError.message, instance);
+  }
+
+  return problem(500, 'internal_error', 'Internal Server Error', 'An unexpected error occurred', instance);
+};
+
+/**
+ * Global error handler
+ * Must be registered before the routes so its hook applies to them
+ */
+export const errorHandler = new Elysia({ name: 'error-handler' })
+  .onError({ as: 'global' }, ({ code, error, request, set }) => {
+    const body = toProblem(code, error, new URL(request.url).pathname);
+
+    if (body.status >= 500) {
+      logger.error('Request failed', { code: body.code, error });
+    }
+
+    const headers: Record<string, string> = { 'content-type': 'application/problem+json' };
+    if (error instanceof TooManyRequestsError) {
+      headers['retry-after'] = String(error.retryAfter);
+    }
+
+    // Elysia would append its own JSON content type to a plain object
+    set.status = body.status;
+    return new Response(JSON.stringify(body), { status: body.status, headers });
+  });
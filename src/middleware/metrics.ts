@@ -0,0 +1,27 @@
+import { Elysia } from 'elysia';
+import { httpRequestDuration, httpRequestsTotal } from '../lib/metrics';
+
+// Start times by request, read when the response has been sent
+const startedAt = new WeakMap<Request, number>();
+
+/**
+ * HTTP request count and latency per route pattern and status
+ * Unmatched paths share one label value so scanners cannot create unbounded series
+ */
+export const httpMetrics = new Elysia({ name: 'http-metrics' })
+  .onRequest(({ request }) => {
+    startedAt.set(request, performance.now());
+  })
+  .onAfterResponse({ as: 'global' }, ({ request, route, set }) => {
+    const start = startedAt.get(request);
+    const labels = {
+      method: request.method,
+      route: route || 'unmatched',
+      status: String(typeof set.status === 'number' ? set.status : 200),
+    };
+
+    httpRequestsTotal.inc(labels);
+    if (start !== undefined) {
+      httpRequestDuration.observe(labels, (performance.now() - start) / 1000);
+    }
+  });
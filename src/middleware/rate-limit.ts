@@ -0,0 +1,85 @@
+import type { Context } from 'elysia';
+import { TooManyRequestsError } from '../lib/errors';
+import { consumeRateLimit, rateLimitConfig, type RateLimitState } from '../lib/rate-limit';
+
+type RateLimitContext = Pick<Context, 'request' | 'server' | 'body' | 'set'>;
+
+/**
+ * One limit applied to a route
+ */
+export interface RateLimitRule {
+  // Counter namespace, unique per route and key type (e.g. 'login:ip')
+  name: string;
+  limit: number;
+  windowMs: number;
+  // Identifier the counter is keyed by; the rule is skipped when it returns null
+  key: (context: RateLimitContext) => string | null;
+}
+
+/**
+ * Key by client IP (X-Forwarded-For only when RATE_LIMIT_TRUST_PROXY=true)
+ */
+export const byIp = ({ request, server }: RateLimitContext): string | null => {
+  if (rateLimitConfig.trustProxy) {
+    const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+    if (forwarded) return forwarded;
+  }
+
+  return server?.requestIP(request)?.address ?? null;
+};
+
+/**
+ * Key by the `email` field of the request body (case-insensitive)
+ */
+export const byEmail = ({ body }: RateLimitContext): string | null => {
+  const email = (body as { email?: unknown } | undefined)?.email;
+  return typeof email === 'string' ? email.toLowerCase() : null;
+};
+
+/**
+ * Key by the session token (bearer token or session cookie)
+ */
+export const bySession = ({ request }: RateLimitContext): string | null => {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.startsWith('Bearer ')) return authorization.slice('Bearer '.length);
+
+  // Any cookie prefix: production sends __Secure-demo.session_token
+  const cookie = request.headers.get('cookie')?.match(/(?:^|;\s*)[^=;]*\.session_token=([^;]+)/);
+  return cookie?.[1] ?? null;
+};
+
+/**
+ * beforeHandle hook enforcing the given rules
+ * Sends RateLimit-* headers for the tightest rule and throws 429 when any rule is exceeded
+ */
+export const rateLimit = (...rules: RateLimitRule[]) => {
+  return async (context: RateLimitContext) => {
+    let tightest: RateLimitState | null = null;
+
+    for (const rule of rules) {
+      const identifier = rule.key(context);
+      if (identifier === null) continue;
+
+      const state = await consumeRateLimit(rule.name, identifier, rule.limit, rule.windowMs);
+      if (
+        !tightest ||
+        state.retryAfter > tightest.retryAfter ||
+        (!tightest.limited && state.remaining < tightest.remaining)
+      ) {
+        tightest = state;
+      }
+    }
+
+    if (!tightest) return;
+
+    const { set } = context;
+    set.headers['ratelimit-limit'] = String(tightest.limit);
+    set.headers['ratelimit-remaining'] = String(tightest.remaining);
+    set.headers['ratelimit-reset'] = String(tightest.limited ? tightest.retryAfter : tightest.reset);
+    set.headers['ratelimit-policy'] = `${tightest.limit};w=${Math.ceil(tightest.windowMs / 1000)}`;
+
+    if (tightest.limited) {
+      throw new TooManyRequestsError('Too many requests, try again later', tightest.retryAfter);
+    }
+  };
+};
@@ -0,0 +1,39 @@
+import { Elysia } from 'elysia';
+import { logger, requestContext } from '../lib/logger';
+
+// Incoming IDs are echoed into logs and headers, so only accept plain tokens
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// Start times by request, read when the response has been sent
+const startedAt = new WeakMap<Request, number>();
+
+/**
+ * Request ID and access log
+ * Reuses the caller's X-Request-Id (or generates one), echoes it in the response
+ * and logs one line per request with route, status, latency and user
+ * Must be registered first so every later hook and query runs with the request ID
+ */
+export const requestLogger = new Elysia({ name: 'request-logger' })
+  .onRequest(({ request, set }) => {
+    const incoming = request.headers.get('x-request-id');
+    const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+
+    // Everything awaited from here on (hooks, handler, queries) sees this context
+    requestContext.enterWith({ requestId });
+    startedAt.set(request, performance.now());
+    set.headers['x-request-id'] = requestId;
+  })
+  .onAfterResponse({ as: 'global' }, ({ request, route, path, set }) => {
+    const start = startedAt.get(request);
+    const status = typeof set.status === 'number' ? set.status : 200;
+    const level = status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info';
+
+    logger[level]('request', {
+      method: request.method,
+      // Route pattern (e.g. /posts/:id); unmatched requests fall back to the path
+      route: route || path,
+      path,
+      status,
+      latencyMs: start === undefined ? null : Math.round((performance.now() - start) * 100) / 100,
+    });
+  });
@@ -0,0 +1,66 @@
+import { Elysia } from 'elysia';
+import { propagation, ROOT_CONTEXT, SpanKind, SpanStatusCode, type Span, type TextMapGetter } from '@opentelemetry/api';
+import {
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_HTTP_ROUTE,
+  ATTR_URL_PATH,
+} from '@opentelemetry/semantic-conventions';
+import { setRequestSpan, tracer } from '../lib/tracing';
+
+// Server spans by request, ended once the response has been sent
+const spans = new WeakMap<Request, Span>();
+// Errors thrown while handling a request, recorded on its span when it ends in a 5xx
+const errors = new WeakMap<Request, unknown>();
+
+const headerGetter: TextMapGetter<Headers> = {
+  get: (headers, key) => headers.get(key) ?? undefined,
+  keys: (headers) => [...headers.keys()],
+};
+
+/**
+ * Server span per request, continuing the caller's trace when a W3C `traceparent` is sent
+ * Must be registered after the request logger, which creates the per-request store
+ */
+export const requestTracing = new Elysia({ name: 'request-tracing' })
+  .onRequest(({ request }) => {
+    const parent = propagation.extract(ROOT_CONTEXT, request.headers, headerGetter);
+    const span = tracer.startSpan(
+      request.method,
+      {
+        kind: SpanKind.SERVER,
+        attributes: {
+          [ATTR_HTTP_REQUEST_METHOD]: request.method,
+          [ATTR_URL_PATH]: new URL(request.url).pathname,
+        },
+      },
+      parent
+    );
+
+    spans.set(request, span);
+    setRequestSpan(parent, span);
+  })
+  .onError({ as: 'global' }, ({ request, error }) => {
+    errors.set(request, error);
+  })
+  .onAfterResponse({ as: 'global' }, ({ request, route, set }) => {
+    const span = spans.get(request);
+    if (!span) return;
+
+    const status = typeof set.status === 'number' ? set.status : 200;
+    if (route) {
+      span.updateName(`${request.method} ${route}`);
+      span.setAttribute(ATTR_HTTP_ROUTE, route);
+    }
+    span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, status);
+
+    // Client errors are the caller's problem; only server errors fail the span
+    if (status >= 500) {
+      const error = errors.get(request);
+      if (error instanceof Error) {
+        span.recordException(error);
+      }
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    span.end();
+  });
@@ -0,0 +1,139 @@
+import { Elysia, t } from 'elysia';
+import { asc, eq } from 'drizzle-orm';
+import { getReadDatabase, recordSessionWrite } from '../config/database';
+import { accounts } from '../db/schema';
+import { authMiddleware, requireSession } from '../middleware/auth';
+import { auth, forwardAuthHeaders } from '../lib/auth';
+import { startOAuthFlow } from '../lib/oauth';
+import {
+  dataEnvelope,
+  errorResponses,
+  linkedAccountSchema,
+  messageOnlyEnvelope,
+  oauthRedirectSchema,
+} from '../lib/schemas';
+
+/**
+ * Linked sign-in methods of the current user (password and OAuth providers)
+ */
+export const accountRoutes = new Elysia({ prefix: '/auth/accounts' })
+  // Apply authentication middleware to all routes
+  .derive(authMiddleware)
+  // Sign-in methods are managed from a login session only, never with an API token
+  .onBeforeHandle(requireSession)
+
+  /**
+   * GET /auth/accounts
+   * List the user's linked accounts (read from replica)
+   */
+  .get(
+    '/',
+    async ({ user, session }) => {
+      // Read from replica database (primary if this session has unreplicated writes)
+      const db = await getReadDatabase(session.id);
+      const rows = await db
+        .select({
+          id: accounts.id,
+          providerId: accounts.providerId,
+          accountId: accounts.accountId,
+          scope: accounts.scope,
+          createdAt: accounts.createdAt,
+          updatedAt: accounts.updatedAt,
+        })
+        .from(accounts)
+        .where(eq(accounts.userId, user.id))
+        .orderBy(asc(accounts.createdAt));
+
+      return {
+        success: true,
+        data: rows.map(({ scope, ...row }) => ({ ...row, scopes: scope ? scope.split(',') : [] })),
+      };
+    },
+    {
+      response: {
+        200: dataEnvelope(t.Array(linkedAccountSchema)),
+        ...errorResponses(401, 403, 503),
+      },
+      detail: {
+        tags: ['Auth'],
+        summary: 'List linked accounts',
+        description: 'Sign-in methods of the user; providerId credential is the email and password (uses replica database)',
+      },
+    }
+  )
+
+  /**
+   * POST /auth/accounts/link
+   * Start linking an OAuth provider to the user
+   */
+  .post(
+    '/link',
+    async ({ body, request, set }) => {
+      const { provider, ...options } = body;
+      const { headers, url, redirect } = await startOAuthFlow('link', provider, request.headers, options);
+
+      forwardAuthHeaders(headers, set);
+
+      return {
+        success: true,
+        data: { url, redirect },
+      };
+    },
+    {
+      body: t.Object({
+        provider: t.String({ description: 'github, google or oidc' }),
+        callbackURL: t.Optional(t.String({ description: 'Where to send the browser once linked (trusted origin)' })),
+        errorCallbackURL: t.Optional(t.String({ description: 'Where to send the browser with ?error= on failure (trusted origin)' })),
+      }),
+      response: {
+        200: dataEnvelope(oauthRedirectSchema),
+        ...errorResponses(400, 401, 403, 404, 503),
+      },
+      detail: {
+        tags: ['Auth'],
+        summary: 'Link OAuth provider',
+        description:
+          'Returns the provider authorization URL; the callback adds the provider account to this user. Fails with ?error=account_already_linked_to_different_user if another user owns it',
+      },
+    }
+  )
+
+  /**
+   * DELETE /auth/accounts/:providerId
+   * Unlink a provider from the user (write to primary)
+   */
+  .delete(
+    '/:providerId',
+    async ({ params, query, request, session }) => {
+      // Better-Auth refuses to remove the last sign-in method and requires a fresh session
+      await auth.api.unlinkAccount({
+        body: { providerId: params.providerId, accountId: query.accountId },
+        headers: request.headers as unknown as Record<string, string>,
+      });
+
+      await recordSessionWrite(session.id);
+
+      return {
+        success: true,
+        message: 'Account unlinked',
+      };
+    },
+    {
+      params: t.Object({
+        providerId: t.String({ minLength: 1 }),
+      }),
+      query: t.Object({
+        accountId: t.Optional(t.String({ description: 'Which account, when several of one provider are linked' })),
+      }),
+      response: {
+        200: messageOnlyEnvelope,
+        ...errorResponses(400, 401, 403, 503),
+      },
+      detail: {
+        tags: ['Auth'],
+        summary: 'Unlink account',
+        description:
+          'Remove a sign-in method. 400 failed_to_unlink_last_account for the only one, 400 account_not_found if not linked; needs a session younger than a day (uses primary database)',
+      },
+    }
+  );
@@ -1,10 +1,31 @@
 import { Elysia, t } from 'elysia';
-import { auth, getUserFromSession } from '../lib/auth';
-import { UnauthorizedError } from '../middleware/auth';
+import { auth, forwardAuthHeaders, getUserFromSession } from '../lib/auth';
+import { UnauthorizedError, ValidationError } from '../lib/errors';
+import { authLoginsTotal } from '../lib/metrics';
+import { assertNotLockedOut, clearLoginFailures, rateLimitConfig, recordLoginFailure } from '../lib/rate-limit';
+import {
+  authResultSchema,
+  authUserSchema,
+  dataEnvelope,
+  errorResponses,
+  messageEnvelope,
+  messageOnlyEnvelope,
+  twoFactorChallengeSchema,
+} from '../lib/schemas';
+import { twoFactorTokenFrom } from '../lib/two-factor';
+import { byEmail, byIp, bySession, rateLimit, type RateLimitRule } from '../middleware/rate-limit';
+
+/**
+ * Limits for endpoints that send email, so they cannot be used to flood an inbox
+ */
+const emailRateLimit = (route: string): RateLimitRule[] => [
+  { name: `${route}:ip`, limit: rateLimitConfig.email.perIp, windowMs: rateLimitConfig.email.windowMs, key: byIp },
+  { name: `${route}:email`, limit: rateLimitConfig.email.perEmail, windowMs: rateLimitConfig.email.windowMs, key: byEmail },
+];
 
 /**
  * Authentication routes
- * Handles signup, login, logout, and user profile retrieval
+ * Handles signup, login, logout, user profile retrieval, email verification and password changes
  */
 export const authRoutes = new Elysia({ prefix: '/auth' })
   /**
@@ -13,36 +34,28 @@ export const authRoutes = new Elysia({ prefix: '/auth' })
    */
   .post(
     '/signup',
-    async ({ body, request }) => {
-      try {
-        const response = await auth.api.signUpEmail({
-          body: {
-            email: body.email,
-            password: body.password,
-            name: body.name,
-          },
-          headers: request.headers as unknown as Record<string, string>,
-        });
+    async ({ body, request, set }) => {
+      const { headers, response } = await auth.api.signUpEmail({
+        body: {
+          email: body.email,
+          password: body.password,
+          name: body.name,
+        },
+        headers: request.headers as unknown as Record<string, string>,
+        returnHeaders: true,
+      });
 
-        if (!response) {
-          return {
-            success: false,
-            message: 'Failed to create account',
-          };
-        }
+      forwardAuthHeaders(headers, set);
 
-        return {
-          success: true,
-          message: 'Account created successfully',
-          data: response,
-        };
-      } catch (error) {
-        console.error('Signup error:', error);
-        return {
-          success: false,
-          message: error instanceof Error ? error.message : 'Signup failed',
-        };
+      if (!response) {
+        throw new ValidationError('Failed to create account');
       }
+
+      return {
+        success: true,
+        message: 'Account created successfully',
+        data: response,
+      };
     },
     {
       body: t.Object({
@@ -50,10 +63,21 @@ export const authRoutes = new Elysia({ prefix: '/auth' })
         password: t.String({ minLength: 8 }),
         name: t.String({ minLength: 2 }),
       }),
+      beforeHandle: rateLimit({
+        name: 'signup:ip',
+        limit: rateLimitConfig.signup.perIp,
+        windowMs: rateLimitConfig.signup.windowMs,
+        key: byIp,
+      }),
+      response: {
+        200: messageEnvelope(authResultSchema),
+        ...errorResponses(400, 429, 503),
+      },
       detail: {
         tags: ['Auth'],
         summary: 'Register new user',
-        description: 'Create a new user account with email and password',
+        security: [],
+        description: 'Create a new user account with email and password. Rate limited per IP',
       },
     }
   )
@@ -65,46 +89,89 @@ export const authRoutes = new Elysia({ prefix: '/auth' })
   .post(
     '/login',
     async ({ body, request, set }) => {
-      try {
-        const response = await auth.api.signInEmail({
+      await assertNotLockedOut(body.email).catch((error) => {
+        authLoginsTotal.inc({ result: 'locked' });
+        throw error;
+      });
+
+      const result = await auth.api
+        .signInEmail({
           body: {
             email: body.email,
             password: body.password,
           },
           headers: request.headers as unknown as Record<string, string>,
+          returnHeaders: true,
+        })
+        .catch(async (error) => {
+          // Wrong email or password counts towards the account lockout; soft-deleted accounts
+          // are refused with the same 401 before a session is created (see databaseHooks)
+          if ((error as { statusCode?: unknown }).statusCode === 401) {
+            authLoginsTotal.inc({ result: 'failure' });
+            await recordLoginFailure(body.email);
+          }
+          throw error;
         });
 
-        if (!response) {
-          set.status = 401;
-          return {
-            success: false,
-            message: 'Invalid credentials',
-          };
-        }
+      forwardAuthHeaders(result.headers, set);
 
+      const { response } = result;
+      if (!response) {
+        throw new UnauthorizedError('Invalid credentials');
+      }
+
+      // Password was right but the account has 2FA: no session yet, only a pending challenge
+      // Failures are cleared once the second factor passes, so guessing it cannot reset the lockout
+      if ('twoFactorRedirect' in response) {
+        authLoginsTotal.inc({ result: 'two_factor' });
         return {
           success: true,
-          message: 'Login successful',
-          data: response,
-        };
-      } catch (error) {
-        console.error('Login error:', error);
-        set.status = 401;
-        return {
-          success: false,
-          message: error instanceof Error ? error.message : 'Login failed',
+          message: 'Two-factor verification required',
+          data: {
+            twoFactorRequired: true,
+            twoFactorToken: twoFactorTokenFrom(result.headers),
+          },
         };
       }
+
+      await clearLoginFailures(body.email);
+      authLoginsTotal.inc({ result: 'success' });
+
+      return {
+        success: true,
+        message: 'Login successful',
+        data: response,
+      };
     },
     {
       body: t.Object({
         email: t.String({ format: 'email' }),
         password: t.String(),
       }),
+      beforeHandle: rateLimit(
+        {
+          name: 'login:ip',
+          limit: rateLimitConfig.login.perIp,
+          windowMs: rateLimitConfig.login.windowMs,
+          key: byIp,
+        },
+        {
+          name: 'login:email',
+          limit: rateLimitConfig.login.perEmail,
+          windowMs: rateLimitConfig.login.windowMs,
+          key: byEmail,
+        }
+      ),
+      response: {
+        200: t.Union([messageEnvelope(authResultSchema), messageEnvelope(twoFactorChallengeSchema)]),
+        ...errorResponses(400, 401, 403, 429, 503),
+      },
       detail: {
         tags: ['Auth'],
         summary: 'Login user',
-        description: 'Authenticate user with email and password',
+        security: [],
+        description:
+          'Authenticate user with email and password. With 2FA enabled the result is a challenge to complete with /auth/two-factor/verify or /auth/two-factor/verify-backup-code. Rate limited per IP and email; repeated failures lock the account temporarily (429 account_locked)',
       },
     }
   )
@@ -115,25 +182,25 @@ export const authRoutes = new Elysia({ prefix: '/auth' })
    */
   .post(
     '/logout',
-    async ({ request }) => {
-      try {
-        await auth.api.signOut({
-          headers: request.headers as unknown as Record<string, string>,
-        });
+    async ({ request, set }) => {
+      // Clears the session cookie
+      const { headers } = await auth.api.signOut({
+        headers: request.headers as unknown as Record<string, string>,
+        returnHeaders: true,
+      });
 
-        return {
-          success: true,
-          message: 'Logout successful',
-        };
-      } catch (error) {
-        console.error('Logout error:', error);
-        return {
-          success: false,
-          message: error instanceof Error ? error.message : 'Logout failed',
-        };
-      }
+      forwardAuthHeaders(headers, set);
+
+      return {
+        success: true,
+        message: 'Logout successful',
+      };
     },
     {
+      response: {
+        200: messageOnlyEnvelope,
+        ...errorResponses(401, 503),
+      },
       detail: {
         tags: ['Auth'],
         summary: 'Logout user',
@@ -149,39 +216,30 @@ export const authRoutes = new Elysia({ prefix: '/auth' })
    */
   .get(
     '/me',
-    async ({ request, set }) => {
-      try {
-        const headers: Record<string, string | undefined> = {};
-        const authHeader = request.headers.get('authorization');
-        const cookieHeader = request.headers.get('cookie');
-        
-        if (authHeader) headers['authorization'] = authHeader;
-        if (cookieHeader) headers['cookie'] = cookieHeader;
-
-        const user = await getUserFromSession(headers);
-
-        if (!user) {
-          set.status = 401;
-          return {
-            success: false,
-            message: 'Unauthorized',
-          };
-        }
+    async ({ request }) => {
+      const headers: Record<string, string | undefined> = {};
+      const authHeader = request.headers.get('authorization');
+      const cookieHeader = request.headers.get('cookie');
+      
+      if (authHeader) headers['authorization'] = authHeader;
+      if (cookieHeader) headers['cookie'] = cookieHeader;
 
-        return {
-          success: true,
-          data: user,
-        };
-      } catch (error) {
-        console.error('Get user error:', error);
-        set.status = 401;
-        return {
-          success: false,
-          message: error instanceof Error ? error.message : 'Failed to get user',
-        };
+      const user = await getUserFromSession(headers);
+
+      if (!user) {
+        throw new UnauthorizedError('Unauthorized');
       }
+
+      return {
+        success: true,
+        data: user,
+      };
     },
     {
+      response: {
+        200: dataEnvelope(authUserSchema),
+        ...errorResponses(401, 503),
+      },
       detail: {
         tags: ['Auth'],
         summary: 'Get current user',
@@ -190,28 +248,196 @@ export const authRoutes = new Elysia({ prefix: '/auth' })
     }
   )
 
-  // Error handler for auth routes
-  .onError(({ code, error, set }) => {
-    if (error instanceof UnauthorizedError) {
-      set.status = 401;
+  /**
+   * POST /auth/change-password
+   * Change the password of the current user
+   * Protected route - requires authentication
+   */
+  .post(
+    '/change-password',
+    async ({ body, request, set }) => {
+      // Revokes every session and issues a new one for this client
+      const { headers, response } = await auth.api.changePassword({
+        body: {
+          currentPassword: body.currentPassword,
+          newPassword: body.newPassword,
+          revokeOtherSessions: true,
+        },
+        headers: request.headers as unknown as Record<string, string>,
+        returnHeaders: true,
+      });
+
+      forwardAuthHeaders(headers, set);
+
       return {
-        success: false,
-        message: error.message,
+        success: true,
+        message: 'Password changed; other sessions were signed out',
+        data: response,
       };
+    },
+    {
+      body: t.Object({
+        currentPassword: t.String(),
+        newPassword: t.String({ minLength: 8 }),
+      }),
+      // Limits guessing the current password with a stolen session
+      beforeHandle: rateLimit({
+        name: 'change-password:session',
+        limit: rateLimitConfig.login.perEmail,
+        windowMs: rateLimitConfig.login.windowMs,
+        key: bySession,
+      }),
+      response: {
+        200: messageEnvelope(authResultSchema),
+        ...errorResponses(400, 401, 429, 503),
+      },
+      detail: {
+        tags: ['Auth'],
+        summary: 'Change password',
+        description:
+          'Change the password and sign out all other sessions; returns a new session token. 400 invalid_password for a wrong current password',
+      },
+    }
+  )
+
+  /**
+   * GET /auth/verify-email
+   * Confirm an email address with the token from the verification email
+   */
+  .get(
+    '/verify-email',
+    async ({ query, request }) => {
+      await auth.api.verifyEmail({
+        query: { token: query.token },
+        headers: request.headers as unknown as Record<string, string>,
+      });
+
+      return {
+        success: true,
+        message: 'Email verified successfully',
+      };
+    },
+    {
+      query: t.Object({
+        token: t.String({ minLength: 1 }),
+      }),
+      response: {
+        200: messageOnlyEnvelope,
+        ...errorResponses(400, 401, 503),
+      },
+      detail: {
+        tags: ['Auth'],
+        summary: 'Verify email',
+        security: [],
+        description: 'Mark the email address as verified; 401 invalid_token or token_expired for bad links',
+      },
+    }
+  )
+
+  /**
+   * POST /auth/resend-verification
+   * Send a new verification email
+   */
+  .post(
+    '/resend-verification',
+    async ({ body, request }) => {
+      // Succeeds for unknown emails too, so accounts cannot be enumerated
+      await auth.api.sendVerificationEmail({
+        body: { email: body.email },
+        headers: request.headers as unknown as Record<string, string>,
+      });
+
+      return {
+        success: true,
+        message: 'If the account exists and is unverified, a verification email has been sent',
+      };
+    },
+    {
+      body: t.Object({
+        email: t.String({ format: 'email' }),
+      }),
+      beforeHandle: rateLimit(...emailRateLimit('resend-verification')),
+      response: {
+        200: messageOnlyEnvelope,
+        ...errorResponses(400, 429, 503),
+      },
+      detail: {
+        tags: ['Auth'],
+        summary: 'Resend verification email',
+        security: [],
+        description: 'Send a new verification email. Rate limited per IP and email',
+      },
     }
+  )
+
+  /**
+   * POST /auth/forgot-password
+   * Email a password reset link
+   */
+  .post(
+    '/forgot-password',
+    async ({ body, request }) => {
+      // Succeeds for unknown emails too, so accounts cannot be enumerated
+      await auth.api.requestPasswordReset({
+        body: { email: body.email },
+        headers: request.headers as unknown as Record<string, string>,
+      });
 
-    if (code === 'VALIDATION') {
-      set.status = 400;
       return {
-        success: false,
-        message: 'Validation error',
-        error: error.message,
+        success: true,
+        message: 'If the account exists, a password reset email has been sent',
       };
+    },
+    {
+      body: t.Object({
+        email: t.String({ format: 'email' }),
+      }),
+      beforeHandle: rateLimit(...emailRateLimit('forgot-password')),
+      response: {
+        200: messageOnlyEnvelope,
+        ...errorResponses(400, 429, 503),
+      },
+      detail: {
+        tags: ['Auth'],
+        summary: 'Request password reset',
+        security: [],
+        description: 'Email a password reset link valid for one hour. Rate limited per IP and email',
+      },
     }
+  )
 
-    set.status = 500;
-    return {
-      success: false,
-      message: 'Internal server error',
-    };
-  });
+  /**
+   * POST /auth/reset-password
+   * Set a new password with the token from the reset email
+   */
+  .post(
+    '/reset-password',
+    async ({ body, request }) => {
+      // Also signs the user out everywhere (revokeSessionsOnPasswordReset)
+      await auth.api.resetPassword({
+        body: { token: body.token, newPassword: body.newPassword },
+        headers: request.headers as unknown as Record<string, string>,
+      });
+
+      return {
+        success: true,
+        message: 'Password reset successfully',
+      };
+    },
+    {
+      body: t.Object({
+        token: t.String({ minLength: 1 }),
+        newPassword: t.String({ minLength: 8 }),
+      }),
+      response: {
+        200: messageOnlyEnvelope,
+        ...errorResponses(400, 503),
+      },
+      detail: {
+        tags: ['Auth'],
+        summary: 'Reset password',
+        security: [],
+        description: 'Set a new password and revoke all sessions; 400 invalid_token for unknown or expired tokens',
+      },
+    }
+  );
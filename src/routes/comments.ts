@@ -0,0 +1,466 @@
+import { Elysia, t } from 'elysia';
+import { and, asc, eq, isNull } from 'drizzle-orm';
+import { getReadDatabase, recordSessionWrite, withTransaction, type Transaction } from '../config/database';
+import { comments, posts, users } from '../db/schema';
+import { authMiddleware, requireScope, type AuthContext } from '../middleware/auth';
+import { ForbiddenError, NotFoundError } from '../lib/errors';
+import { commentSchema, dataEnvelope, errorResponses, messageEnvelope, messageOnlyEnvelope } from '../lib/schemas';
+import { canActOn } from '../lib/permissions';
+import { whereAll } from '../lib/pagination';
+
+/**
+ * Columns selected for a comment (joined with its author and post)
+ */
+const commentFields = {
+  id: comments.id,
+  postId: comments.postId,
+  parentId: comments.parentId,
+  content: comments.content,
+  hiddenAt: comments.hiddenAt,
+  deletedAt: comments.deletedAt,
+  createdAt: comments.createdAt,
+  updatedAt: comments.updatedAt,
+  author: {
+    id: users.id,
+    name: users.name,
+    image: users.image,
+  },
+  postAuthorId: posts.authorId,
+};
+
+/**
+ * Shape a comment for a reader
+ * Deleted comments never show their content; hidden ones only to their author,
+ * the post author and moderators
+ */
+const toCommentView = (row: CommentRow, viewer: AuthContext['user']) => {
+  const { hiddenAt, deletedAt, postAuthorId, content, ...comment } = row;
+  const canSeeHidden = viewer.id === comment.author.id || canActOn(viewer, postAuthorId, 'comments:hide:any');
+
+  return {
+    ...comment,
+    content: deletedAt || (hiddenAt && !canSeeHidden) ? null : content,
+    hidden: hiddenAt !== null,
+    deleted: deletedAt !== null,
+  };
+};
+
+/**
+ * Read a comment back inside the transaction that wrote it
+ */
+const selectComment = async (tx: Transaction, commentId: string) => {
+  const [comment] = await tx
+    .select(commentFields)
+    .from(comments)
+    .innerJoin(users, eq(comments.authorId, users.id))
+    .innerJoin(posts, eq(comments.postId, posts.id))
+    .where(eq(comments.id, commentId))
+    .limit(1);
+
+  return comment;
+};
+
+type CommentRow = Awaited<ReturnType<typeof selectComment>>;
+
+/**
+ * Lock a live comment of a live post for a write
+ * Throws NotFoundError if the post or comment does not exist or is deleted
+ */
+const lockComment = async (tx: Transaction, postId: string, commentId: string) => {
+  const [comment] = await tx
+    .select({ authorId: comments.authorId, postAuthorId: posts.authorId })
+    .from(comments)
+    .innerJoin(posts, eq(comments.postId, posts.id))
+    .where(and(eq(comments.id, commentId), eq(comments.postId, postId), isNull(comments.deletedAt), isNull(posts.deletedAt)))
+    .limit(1)
+    .for('update', { of: comments });
+
+  if (!comment) {
+    throw new NotFoundError('Comment not found');
+  }
+
+  return comment;
+};
+
+/**
+ * Hide or unhide a comment: the post author, or a user with comments:hide:any
+ */
+const setCommentHidden = async (
+  postId: string,
+  commentId: string,
+  user: AuthContext['user'],
+  hidden: boolean
+): Promise<CommentRow> => {
+  return withTransaction(async (tx) => {
+    const comment = await lockComment(tx, postId, commentId);
+
+    if (!canActOn(user, comment.postAuthorId, 'comments:hide:any')) {
+      throw new ForbiddenError('Only the post author can moderate its comments');
+    }
+
+    await tx
+      .update(comments)
+      .set(hidden ? { hiddenAt: new Date(), hiddenById: user.id } : { hiddenAt: null, hiddenById: null })
+      .where(eq(comments.id, commentId));
+
+    return selectComment(tx, commentId);
+  });
+};
+
+const commentParams = t.Object({
+  id: t.String({ format: 'uuid' }),
+  commentId: t.String({ format: 'uuid' }),
+});
+
+/**
+ * Comment routes, nested under posts
+ * - GET operations use replica database
+ * - POST, PATCH, DELETE operations use primary database
+ */
+export const commentRoutes = new Elysia({ prefix: '/posts' })
+  // Apply authentication middleware to all routes
+  .derive(authMiddleware)
+
+  /**
+   * GET /posts/:id/comments
+   * List comments of a post in thread order (read from replica)
+   */
+  .get(
+    '/:id/comments',
+    async ({ params, query, user, session }) => {
+      const limit = query.limit || 20;
+      const offset = query.offset || 0;
+
+      // Read from replica database (primary if this session has unreplicated writes)
+      const db = await getReadDatabase(session.id);
+      const [post] = await db
+        .select({ id: posts.id })
+        .from(posts)
+        .where(and(eq(posts.id, params.id), isNull(posts.deletedAt)))
+        .limit(1);
+
+      if (!post) {
+        throw new NotFoundError('Post not found');
+      }
+
+      // Oldest first, so parents always come before their replies
+      const rows = await db
+        .select(commentFields)
+        .from(comments)
+        .innerJoin(users, eq(comments.authorId, users.id))
+        .innerJoin(posts, eq(comments.postId, posts.id))
+        .where(whereAll(eq(comments.postId, params.id), query.parentId ? eq(comments.parentId, query.parentId) : undefined))
+        .orderBy(asc(comments.createdAt), asc(comments.id))
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        success: true,
+        data: rows.map((row) => toCommentView(row, user)),
+        pagination: {
+          limit,
+          offset,
+        },
+      };
+    },
+    {
+      beforeHandle: requireScope('posts:read'),
+      params: t.Object({
+        id: t.String({ format: 'uuid' }),
+      }),
+      query: t.Object({
+        parentId: t.Optional(t.String({ format: 'uuid', description: 'Only direct replies to this comment' })),
+        limit: t.Optional(t.Number({ minimum: 1, maximum: 100 })),
+        offset: t.Optional(t.Number({ minimum: 0 })),
+      }),
+      response: {
+        200: t.Object({
+          success: t.Literal(true),
+          data: t.Array(commentSchema),
+          pagination: t.Object({ limit: t.Integer(), offset: t.Integer() }),
+        }),
+        ...errorResponses(400, 401, 403, 404, 503),
+      },
+      detail: {
+        tags: ['Comments'],
+        summary: 'List comments',
+        description:
+          'Get the comments of a post oldest first; build threads from `parentId`. Deleted comments and hidden ones (unless yours or on your post) have null content (uses replica database)',
+      },
+    }
+  )
+
+  /**
+   * GET /posts/:id/comments/:commentId
+   * Get comment by ID (read from replica)
+   */
+  .get(
+    '/:id/comments/:commentId',
+    async ({ params, user, session }) => {
+      // Read from replica database (primary if this session has unreplicated writes)
+      const db = await getReadDatabase(session.id);
+      const [comment] = await db
+        .select(commentFields)
+        .from(comments)
+        .innerJoin(users, eq(comments.authorId, users.id))
+        .innerJoin(posts, eq(comments.postId, posts.id))
+        .where(and(eq(comments.id, params.commentId), eq(comments.postId, params.id), isNull(posts.deletedAt)))
+        .limit(1);
+
+      if (!comment) {
+        throw new NotFoundError('Comment not found');
+      }
+
+      return {
+        success: true,
+        data: toCommentView(comment, user),
+      };
+    },
+    {
+      beforeHandle: requireScope('posts:read'),
+      params: commentParams,
+      response: {
+        200: dataEnvelope(commentSchema),
+        ...errorResponses(400, 401, 403, 404, 503),
+      },
+      detail: {
+        tags: ['Comments'],
+        summary: 'Get comment by ID',
+        description: 'Get a comment of a post (uses replica database)',
+      },
+    }
+  )
+
+  /**
+   * POST /posts/:id/comments
+   * Comment on a post or reply to a comment (write to primary)
+   */
+  .post(
+    '/:id/comments',
+    async ({ params, body, user, session, set }) => {
+      // Write to primary database
+      const comment = await withTransaction(async (tx) => {
+        const [post] = await tx
+          .select({ id: posts.id })
+          .from(posts)
+          .where(and(eq(posts.id, params.id), isNull(posts.deletedAt)))
+          .limit(1);
+
+        if (!post) {
+          throw new NotFoundError('Post not found');
+        }
+
+        if (body.parentId) {
+          const [parent] = await tx
+            .select({ id: comments.id })
+            .from(comments)
+            .where(and(eq(comments.id, body.parentId), eq(comments.postId, params.id), isNull(comments.deletedAt)))
+            .limit(1);
+
+          if (!parent) {
+            throw new NotFoundError('Parent comment not found');
+          }
+        }
+
+        const [created] = await tx
+          .insert(comments)
+          .values({
+            postId: params.id,
+            parentId: body.parentId ?? null,
+            authorId: user.id,
+            content: body.content,
+          })
+          .returning({ id: comments.id });
+
+        return selectComment(tx, created.id);
+      });
+
+      await recordSessionWrite(session.id);
+
+      set.status = 201;
+      return {
+        success: true,
+        message: 'Comment created successfully',
+        data: toCommentView(comment, user),
+      };
+    },
+    {
+      beforeHandle: requireScope('posts:write'),
+      params: t.Object({
+        id: t.String({ format: 'uuid' }),
+      }),
+      body: t.Object({
+        content: t.String({ minLength: 1, maxLength: 10000 }),
+        parentId: t.Optional(t.String({ format: 'uuid', description: 'Comment being replied to' })),
+      }),
+      response: {
+        201: messageEnvelope(commentSchema),
+        ...errorResponses(400, 401, 403, 404, 503),
+      },
+      detail: {
+        tags: ['Comments'],
+        summary: 'Create comment',
+        description: 'Comment on a post, or reply to one of its comments with `parentId` (uses primary database)',
+      },
+    }
+  )
+
+  /**
+   * PATCH /posts/:id/comments/:commentId
+   * Edit own comment (write to primary)
+   */
+  .patch(
+    '/:id/comments/:commentId',
+    async ({ params, body, user, session }) => {
+      // Lock the row so the author check and update see the same comment
+      const updatedComment = await withTransaction(async (tx) => {
+        const comment = await lockComment(tx, params.id, params.commentId);
+
+        // Comments are only ever edited by their author
+        if (comment.authorId !== user.id) {
+          throw new ForbiddenError('You can only edit your own comments');
+        }
+
+        await tx
+          .update(comments)
+          .set({ content: body.content, updatedAt: new Date() })
+          .where(eq(comments.id, params.commentId));
+
+        return selectComment(tx, params.commentId);
+      });
+
+      await recordSessionWrite(session.id);
+
+      return {
+        success: true,
+        message: 'Comment updated successfully',
+        data: toCommentView(updatedComment, user),
+      };
+    },
+    {
+      beforeHandle: requireScope('posts:write'),
+      params: commentParams,
+      body: t.Object({
+        content: t.String({ minLength: 1, maxLength: 10000 }),
+      }),
+      response: {
+        200: messageEnvelope(commentSchema),
+        ...errorResponses(400, 401, 403, 404, 503),
+      },
+      detail: {
+        tags: ['Comments'],
+        summary: 'Update comment',
+        description: 'Edit the content of your own comment (uses primary database)',
+      },
+    }
+  )
+
+  /**
+   * DELETE /posts/:id/comments/:commentId
+   * Delete comment, keeping a placeholder for its replies (write to primary)
+   */
+  .delete(
+    '/:id/comments/:commentId',
+    async ({ params, user, session }) => {
+      await withTransaction(async (tx) => {
+        const comment = await lockComment(tx, params.id, params.commentId);
+
+        // Authors can delete their own comments; others need comments:delete:any
+        if (!canActOn(user, comment.authorId, 'comments:delete:any')) {
+          throw new ForbiddenError('You can only delete your own comments');
+        }
+
+        // The row stays so replies keep their place in the thread; the content goes
+        await tx
+          .update(comments)
+          .set({ content: '', deletedAt: new Date() })
+          .where(eq(comments.id, params.commentId));
+      });
+
+      await recordSessionWrite(session.id);
+
+      return {
+        success: true,
+        message: 'Comment deleted successfully',
+      };
+    },
+    {
+      beforeHandle: requireScope('posts:write'),
+      params: commentParams,
+      response: {
+        200: messageOnlyEnvelope,
+        ...errorResponses(400, 401, 403, 404, 503),
+      },
+      detail: {
+        tags: ['Comments'],
+        summary: 'Delete comment',
+        description:
+          'Delete a comment; it stays in the thread as a placeholder without content. Authors and moderators only (uses primary database)',
+      },
+    }
+  )
+
+  /**
+   * POST /posts/:id/comments/:commentId/hide
+   * Hide a comment on your post (write to primary)
+   */
+  .post(
+    '/:id/comments/:commentId/hide',
+    async ({ params, user, session }) => {
+      const comment = await setCommentHidden(params.id, params.commentId, user, true);
+
+      await recordSessionWrite(session.id);
+
+      return {
+        success: true,
+        message: 'Comment hidden successfully',
+        data: toCommentView(comment, user),
+      };
+    },
+    {
+      beforeHandle: requireScope('posts:write'),
+      params: commentParams,
+      response: {
+        200: messageEnvelope(commentSchema),
+        ...errorResponses(400, 401, 403, 404, 503),
+      },
+      detail: {
+        tags: ['Comments'],
+        summary: 'Hide comment',
+        description:
+          'Withhold a comment from readers other than its author, the post author and moderators. Post author or moderators only (uses primary database)',
+      },
+    }
+  )
+
+  /**
+   * POST /posts/:id/comments/:commentId/unhide
+   * Show a hidden comment again (write to primary)
+   */
+  .post(
+    '/:id/comments/:commentId/unhide',
+    async ({ params, user, session }) => {
+      const comment = await setCommentHidden(params.id, params.commentId, user, false);
+
+      await recordSessionWrite(session.id);
+
+      return {
+        success: true,
+        message: 'Comment unhidden successfully',
+        data: toCommentView(comment, user),
+      };
+    },
+    {
+      beforeHandle: requireScope('posts:write'),
+      params: commentParams,
+      response: {
+        200: messageEnvelope(commentSchema),
+        ...errorResponses(400, 401, 403, 404, 503),
+      },
+      detail: {
+        tags: ['Comments'],
+        summary: 'Unhide comment',
+        description: 'Make a hidden comment visible to everyone again. Post author or moderators only (uses primary database)',
+      },
+    }
+  );
@@ -0,0 +1,244 @@
+import { Elysia, t } from 'elysia';
+import {
+  checkDatabaseHealth,
+  getCircuitBreakerStatus,
+  getDatabaseDiagnostics,
+  getPrimaryDiagnostics,
+} from '../config/database';
+
+const connectionState = t.UnionEnum(['connected', 'disconnected']);
+
+const circuitBreakerSchema = t.Object({
+  state: t.UnionEnum(['closed', 'open', 'half-open']),
+  consecutiveFailures: t.Integer(),
+  openedAt: t.Nullable(t.String()),
+  lastError: t.Nullable(t.String()),
+});
+
+const circuitBreakersSchema = t.Object({
+  primary: circuitBreakerSchema,
+  replicas: t.Record(t.String(), circuitBreakerSchema),
+});
+
+const healthSchema = t.Object({
+  success: t.Boolean(),
+  status: t.UnionEnum(['healthy', 'unhealthy']),
+  timestamp: t.String({ format: 'date-time' }),
+  database: t.Optional(
+    t.Object({
+      primary: connectionState,
+      replica: connectionState,
+      replicas: t.Record(t.String(), connectionState),
+    })
+  ),
+  error: t.Optional(t.String()),
+  circuitBreakers: circuitBreakersSchema,
+});
+
+const poolDiagnosticsSchema = t.Object({
+  name: t.String(),
+  role: t.UnionEnum(['primary', 'replica']),
+  reachable: t.Boolean(),
+  latencyMs: t.Nullable(t.Number()),
+  inRecovery: t.Nullable(t.Boolean()),
+  misrouted: t.Boolean(),
+  pool: t.Object({
+    total: t.Integer(),
+    idle: t.Integer(),
+    waiting: t.Integer(),
+  }),
+  circuitBreaker: circuitBreakerSchema,
+  replication: t.Optional(
+    t.Object({
+      lagBytes: t.Nullable(t.Number()),
+      lagSeconds: t.Nullable(t.Number()),
+    })
+  ),
+  error: t.Optional(t.String()),
+});
+
+const dbHealthSchema = t.Object({
+  success: t.Boolean(),
+  status: t.UnionEnum(['healthy', 'degraded', 'unhealthy']),
+  timestamp: t.String({ format: 'date-time' }),
+  database: t.Object({
+    primary: poolDiagnosticsSchema,
+    replicas: t.Array(poolDiagnosticsSchema),
+  }),
+});
+
+const liveSchema = t.Object({
+  success: t.Boolean(),
+  status: t.Literal('alive'),
+  timestamp: t.String({ format: 'date-time' }),
+  uptimeSeconds: t.Integer(),
+});
+
+const readySchema = t.Object({
+  success: t.Boolean(),
+  status: t.UnionEnum(['ready', 'not_ready']),
+  timestamp: t.String({ format: 'date-time' }),
+  database: t.Object({
+    primary: connectionState,
+    replicas: t.String({ description: 'Replicas whose circuit breaker is not open, e.g. "2/3 available"' }),
+  }),
+});
+
+/**
+ * Health check routes
+ * - /health/live only reports that the process is running (no database calls)
+ * - /health/ready requires a reachable primary and queries nothing else; replica outages only degrade reads
+ */
+export const healthRoutes = new Elysia({ prefix: '/health' })
+  /**
+   * GET /health
+   * Overall application health
+   */
+  .get(
+    '/',
+    async ({ set }) => {
+      try {
+        const dbHealth = await checkDatabaseHealth();
+        const isHealthy = dbHealth.primary && dbHealth.replica;
+        set.status = isHealthy ? 200 : 503;
+        return {
+          success: isHealthy,
+          status: isHealthy ? 'healthy' : 'unhealthy',
+          timestamp: new Date().toISOString(),
+          database: {
+            primary: dbHealth.primary ? 'connected' : 'disconnected',
+            replica: dbHealth.replica ? 'connected' : 'disconnected',
+            replicas: Object.fromEntries(
+              Object.entries(dbHealth.replicas).map(([name, healthy]) => [
+                name,
+                healthy ? 'connected' : 'disconnected',
+              ])
+            ),
+          },
+          circuitBreakers: getCircuitBreakerStatus(),
+        };
+      } catch (error) {
+        set.status = 503;
+        return {
+          success: false,
+          status: 'unhealthy',
+          timestamp: new Date().toISOString(),
+          error: error instanceof Error ? error.message : 'Unknown error',
+          circuitBreakers: getCircuitBreakerStatus(),
+        };
+      }
+    },
+    {
+      response: {
+        200: healthSchema,
+        503: healthSchema,
+      },
+      detail: {
+        tags: ['Health'],
+        security: [],
+        summary: 'Application health',
+        description: 'Check connectivity of primary and replica databases',
+      },
+    }
+  )
+
+  /**
+   * GET /health/db
+   * Pool statistics, latency, recovery state and replication lag
+   */
+  .get(
+    '/db',
+    async ({ set }) => {
+      const diagnostics = await getDatabaseDiagnostics();
+      const primaryOk = diagnostics.primary.reachable && !diagnostics.primary.misrouted;
+      const replicasOk = diagnostics.replicas.every((replica) => replica.reachable && !replica.misrouted);
+      const status = !primaryOk ? 'unhealthy' : replicasOk ? 'healthy' : 'degraded';
+
+      set.status = primaryOk ? 200 : 503;
+      return {
+        success: primaryOk,
+        status,
+        timestamp: new Date().toISOString(),
+        database: diagnostics,
+      };
+    },
+    {
+      response: {
+        200: dbHealthSchema,
+        503: dbHealthSchema,
+      },
+      detail: {
+        tags: ['Health'],
+        security: [],
+        summary: 'Database diagnostics',
+        description: 'Pool counts, round-trip latency, pg_is_in_recovery() and replica replay lag per node',
+      },
+    }
+  )
+
+  /**
+   * GET /health/live
+   * Liveness probe - the process is up and serving requests
+   */
+  .get(
+    '/live',
+    () => ({
+      success: true,
+      status: 'alive' as const,
+      timestamp: new Date().toISOString(),
+      uptimeSeconds: Math.round(process.uptime()),
+    }),
+    {
+      response: {
+        200: liveSchema,
+      },
+      detail: {
+        tags: ['Health'],
+        security: [],
+        summary: 'Liveness probe',
+        description: 'Succeeds while the process is running; never touches the database',
+      },
+    }
+  )
+
+  /**
+   * GET /health/ready
+   * Readiness probe - the primary is reachable and accepts writes
+   */
+  .get(
+    '/ready',
+    async ({ set }) => {
+      const { primary } = await getPrimaryDiagnostics();
+      const isReady = primary.reachable && !primary.misrouted;
+
+      // Replica state comes from the circuit breakers, not from queries: an unreachable
+      // replica would otherwise hold the probe for the whole connect timeout
+      const replicaBreakers = Object.values(getCircuitBreakerStatus().replicas);
+      const availableReplicas = replicaBreakers.filter((breaker) => breaker.state !== 'open').length;
+
+      set.status = isReady ? 200 : 503;
+      return {
+        success: isReady,
+        status: isReady ? 'ready' : 'not_ready',
+        timestamp: new Date().toISOString(),
+        database: {
+          primary: primary.reachable ? 'connected' : 'disconnected',
+          // Reads fall back to primary, so missing replicas do not affect readiness
+          replicas: `${availableReplicas}/${replicaBreakers.length} available`,
+        },
+      };
+    },
+    {
+      response: {
+        200: readySchema,
+        503: readySchema,
+      },
+      detail: {
+        tags: ['Health'],
+        security: [],
+        summary: 'Readiness probe',
+        description:
+          'Fails when the primary is unreachable or in recovery. Only the primary is queried; replica outages only degrade reads (see /health/db)',
+      },
+    }
+  );
@@ -0,0 +1,50 @@
+import { Elysia, t } from 'elysia';
+import { timingSafeEqual } from 'node:crypto';
+import { collectDatabaseMetrics } from '../config/database';
+import { UnauthorizedError } from '../lib/errors';
+import { metricsConfig, metricsRegistry } from '../lib/metrics';
+import { errorResponses } from '../lib/schemas';
+
+/**
+ * Constant-time comparison of the scrape token
+ */
+const isMetricsToken = (authorization: string | null): boolean => {
+  const expected = Buffer.from(`Bearer ${metricsConfig.token}`);
+  const actual = Buffer.from(authorization ?? '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+/**
+ * Prometheus scrape endpoint
+ */
+export const metricsRoutes = new Elysia()
+  /**
+   * GET /metrics
+   * HTTP, database pool, replication and auth metrics in Prometheus text format
+   */
+  .get(
+    '/metrics',
+    async ({ request, set }) => {
+      if (metricsConfig.token && !isMetricsToken(request.headers.get('authorization'))) {
+        throw new UnauthorizedError('Invalid metrics token');
+      }
+
+      await collectDatabaseMetrics();
+
+      set.headers['content-type'] = metricsRegistry.contentType;
+      return metricsRegistry.metrics();
+    },
+    {
+      response: {
+        200: t.String({ description: 'Prometheus text exposition format' }),
+        ...errorResponses(401),
+      },
+      detail: {
+        tags: ['Health'],
+        summary: 'Prometheus metrics',
+        security: [],
+        description:
+          'Request counts and latency per route, pool gauges, query duration per pool, replica lag, circuit breaker state, read routing and login results. Requires `Authorization: Bearer <METRICS_TOKEN>` when METRICS_TOKEN is set',
+      },
+    }
+  );
@@ -0,0 +1,147 @@
+import { Elysia, t } from 'elysia';
+import { auth, forwardAuthHeaders, oauthProviders } from '../lib/auth';
+import { BadRequestError } from '../lib/errors';
+import { startOAuthFlow } from '../lib/oauth';
+import { rateLimitConfig } from '../lib/rate-limit';
+import { dataEnvelope, errorResponses, oauthRedirectSchema } from '../lib/schemas';
+import { byIp, rateLimit } from '../middleware/rate-limit';
+
+const redirectOptions = t.Object({
+  callbackURL: t.Optional(t.String({ description: 'Where to send the browser after signing in (trusted origin)' })),
+  errorCallbackURL: t.Optional(t.String({ description: 'Where to send the browser with ?error= on failure (trusted origin)' })),
+});
+
+/**
+ * Social and OpenID Connect sign-in routes
+ * Flow: POST /auth/sign-in/:provider → browser follows the URL → provider redirects
+ * to the callback → session cookie is set and the browser is sent to callbackURL
+ */
+export const oauthRoutes = new Elysia({ prefix: '/auth' })
+  /**
+   * GET /auth/providers
+   * List the configured OAuth providers
+   */
+  .get(
+    '/providers',
+    () => {
+      return {
+        success: true as const,
+        data: oauthProviders,
+      };
+    },
+    {
+      response: {
+        200: dataEnvelope(t.Array(t.String())),
+      },
+      detail: {
+        tags: ['Auth'],
+        summary: 'List OAuth providers',
+        security: [],
+        description: 'Providers usable with /auth/sign-in/:provider and /auth/accounts/link',
+      },
+    }
+  )
+
+  /**
+   * POST /auth/sign-in/:provider
+   * Start an OAuth sign-in; the client sends the browser to the returned URL
+   */
+  .post(
+    '/sign-in/:provider',
+    async ({ params, body, request, set }) => {
+      const { headers, url, redirect } = await startOAuthFlow('sign-in', params.provider, request.headers, body);
+
+      // State cookie, checked by the callback
+      forwardAuthHeaders(headers, set);
+
+      return {
+        success: true,
+        data: { url, redirect },
+      };
+    },
+    {
+      params: t.Object({
+        provider: t.String({ description: 'github, google or oidc' }),
+      }),
+      body: redirectOptions,
+      beforeHandle: rateLimit({
+        name: 'oauth-sign-in:ip',
+        limit: rateLimitConfig.login.perIp,
+        windowMs: rateLimitConfig.login.windowMs,
+        key: byIp,
+      }),
+      response: {
+        200: dataEnvelope(oauthRedirectSchema),
+        ...errorResponses(400, 403, 404, 429, 503),
+      },
+      detail: {
+        tags: ['Auth'],
+        summary: 'Start OAuth sign-in',
+        security: [],
+        description:
+          'Returns the provider authorization URL. New users are created from the provider profile; an existing user with the same verified email is linked. 404 for unconfigured providers, 403 for untrusted callback URLs',
+      },
+    }
+  )
+
+  /**
+   * GET /auth/callback/:provider
+   * Provider redirect target for GitHub and Google
+   */
+  .get('/callback/:provider', ({ request }) => auth.handler(request), {
+    params: t.Object({
+      provider: t.String(),
+    }),
+    detail: {
+      tags: ['Auth'],
+      summary: 'OAuth callback',
+      security: [],
+      description:
+        'Exchanges the code, signs the user in (or links the account) and redirects to callbackURL; failures redirect to errorCallbackURL with ?error=',
+    },
+  })
+
+  /**
+   * GET /auth/oauth2/callback/:providerId
+   * Provider redirect target for generic OpenID Connect providers
+   */
+  .get('/oauth2/callback/:providerId', ({ request }) => auth.handler(request), {
+    params: t.Object({
+      providerId: t.String(),
+    }),
+    detail: {
+      tags: ['Auth'],
+      summary: 'OpenID Connect callback',
+      security: [],
+      description: 'Same as /auth/callback/:provider, for providers configured through OIDC discovery',
+    },
+  })
+
+  /**
+   * GET /auth/error
+   * Default error redirect target of the OAuth flows
+   */
+  .get(
+    '/error',
+    ({ query }) => {
+      throw new BadRequestError(
+        query.error_description ? `${query.error}: ${query.error_description}` : query.error,
+        'oauth_failed'
+      );
+    },
+    {
+      query: t.Object({
+        error: t.String({ default: 'unknown_error' }),
+        error_description: t.Optional(t.String()),
+      }),
+      response: {
+        ...errorResponses(400),
+      },
+      detail: {
+        tags: ['Auth'],
+        summary: 'OAuth error',
+        security: [],
+        description: 'Renders a failed OAuth flow as problem details when no errorCallbackURL was given',
+      },
+    }
+  );
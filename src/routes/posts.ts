@@ -1,8 +1,46 @@
 import { Elysia, t } from 'elysia';
-import { eq } from 'drizzle-orm';
-import { dbPrimary, dbReplica } from '../config/database';
-import { posts, users } from '../db/schema';
-import { authMiddleware, UnauthorizedError } from '../middleware/auth';
+import { and, desc, eq, gte, ilike, isNotNull, isNull, lte, sql } from 'drizzle-orm';
+import { getReadDatabase, recordSessionWrite, withTransaction } from '../config/database';
+import { comments, posts, users } from '../db/schema';
+import { authMiddleware, requireScope } from '../middleware/auth';
+import { ForbiddenError, NotFoundError, PreconditionFailedError, ValidationError } from '../lib/errors';
+import {
+  dataEnvelope,
+  errorResponses,
+  messageEnvelope,
+  messageOnlyEnvelope,
+  pageEnvelope,
+  postListItemSchema,
+  postSchema,
+  postWithAuthorSchema,
+} from '../lib/schemas';
+import { canActOn } from '../lib/permissions';
+import { matchesIfMatch, notModified, toETag } from '../lib/etag';
+import { recordPostRevision } from '../lib/revisions';
+import { getPostTags, postTagFilter, postTagNames, setPostTags } from '../lib/tags';
+import {
+  buildPage,
+  cursorKey,
+  decodeCursor,
+  keysetCondition,
+  keysetOrder,
+  paginationQuery,
+  whereAll,
+} from '../lib/pagination';
+
+/**
+ * Sortable columns of GET /posts
+ */
+const postSortColumns = {
+  createdAt: posts.createdAt,
+  updatedAt: posts.updatedAt,
+  title: posts.title,
+};
+
+/**
+ * Escape LIKE wildcards so user input matches literally
+ */
+const escapeLikePattern = (value: string): string => value.replace(/[\\%_]/g, '\\$&');
 
 /**
  * Post routes with automatic read/write routing
@@ -19,65 +57,127 @@ export const postRoutes = new Elysia({ prefix: '/posts' })
    */
   .get(
     '/',
-    async ({ query }) => {
-      try {
-        const limit = query.limit || 10;
-        const offset = query.offset || 0;
-        const published = query.published;
-
-        // Read from replica database with author information
-        const postQuery = dbReplica
-          .select({
-            id: posts.id,
-            title: posts.title,
-            content: posts.content,
-            published: posts.published,
-            authorId: posts.authorId,
-            createdAt: posts.createdAt,
-            updatedAt: posts.updatedAt,
-            author: {
-              id: users.id,
-              name: users.name,
-              email: users.email,
-              image: users.image,
-            },
-          })
-          .from(posts)
-          .innerJoin(users, eq(posts.authorId, users.id))
-          .limit(limit)
-          .offset(offset);
-
-        // Filter by published status if provided
-        const postList = published !== undefined
-          ? await postQuery.where(eq(posts.published, published))
-          : await postQuery;
-
-        return {
-          success: true,
-          data: postList,
-          pagination: {
-            limit,
-            offset,
-          },
-        };
-      } catch (error) {
-        console.error('Error fetching posts:', error);
-        return {
-          success: false,
-          message: 'Failed to fetch posts',
-        };
+    async ({ query, session }) => {
+      const limit = query.limit || 10;
+      const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+
+      // Relevance-ranked search has no stable keyset, so it pages by offset only
+      const searchQuery = query.q ? sql`websearch_to_tsquery('english', ${query.q})` : undefined;
+      const rankBySearch = searchQuery !== undefined && !query.sortBy;
+      const sortBy = query.sortBy ?? 'createdAt';
+      const sortOrder = query.sortOrder ?? 'desc';
+      const sort = `${sortBy}:${sortOrder}`;
+      const sortColumn = postSortColumns[sortBy];
+
+      if (query.cursor && (!cursor || cursor.sort !== sort || rankBySearch)) {
+        throw new ValidationError(
+          rankBySearch ? 'Cursor pagination is not available for relevance-ranked search' : 'Invalid cursor'
+        );
+      }
+
+      if (cursor && query.offset !== undefined) {
+        throw new ValidationError('Use either cursor or offset, not both');
       }
+
+      const offset = query.offset || 0;
+
+      // Read from replica database with author information
+      // (primary if this session has unreplicated writes)
+      const db = await getReadDatabase(session.id);
+
+      const filter = whereAll(
+        isNull(posts.deletedAt),
+        query.published !== undefined ? eq(posts.published, query.published) : undefined,
+        query.authorId ? eq(posts.authorId, query.authorId) : undefined,
+        query.createdFrom ? gte(posts.createdAt, new Date(query.createdFrom)) : undefined,
+        query.createdTo ? lte(posts.createdAt, new Date(query.createdTo)) : undefined,
+        query.titlePrefix ? ilike(posts.title, `${escapeLikePattern(query.titlePrefix)}%`) : undefined,
+        searchQuery ? sql`${posts.searchVector} @@ ${searchQuery}` : undefined,
+        query.tag ? postTagFilter(query.tag, query.tagMatch ?? 'any') : undefined
+      );
+
+      const order = rankBySearch
+        ? [desc(sql`ts_rank(${posts.searchVector}, ${searchQuery})`), desc(posts.createdAt), desc(posts.id)]
+        : keysetOrder(sortColumn, posts.id, cursor, sortOrder);
+
+      // Fetch one extra row to know whether another page exists
+      const rows = await db
+        .select({
+          id: posts.id,
+          title: posts.title,
+          content: posts.content,
+          published: posts.published,
+          version: posts.version,
+          authorId: posts.authorId,
+          tags: postTagNames,
+          createdAt: posts.createdAt,
+          updatedAt: posts.updatedAt,
+          author: {
+            id: users.id,
+            name: users.name,
+            email: users.email,
+            image: users.image,
+          },
+          // Visible comments only (neither hidden nor deleted)
+          commentCount: db.$count(
+            comments,
+            and(eq(comments.postId, posts.id), isNull(comments.hiddenAt), isNull(comments.deletedAt))
+          ),
+          cursorKey: cursorKey(sortColumn),
+        })
+        .from(posts)
+        .innerJoin(users, eq(posts.authorId, users.id))
+        .where(whereAll(filter, keysetCondition(sortColumn, posts.id, cursor, sortOrder)))
+        .orderBy(...order)
+        .limit(limit + 1)
+        .offset(offset);
+
+      const page = buildPage(rows, limit, cursor, offset, rankBySearch ? null : sort);
+      const total = query.includeTotal ? await db.$count(posts, filter) : undefined;
+
+      return {
+        success: true,
+        data: page.items,
+        pagination: {
+          limit,
+          ...(!cursor && { offset }),
+          nextCursor: page.nextCursor,
+          prevCursor: page.prevCursor,
+          ...(total !== undefined && { total }),
+        },
+      };
     },
     {
+      beforeHandle: requireScope('posts:read'),
       query: t.Object({
-        limit: t.Optional(t.Number({ minimum: 1, maximum: 100 })),
-        offset: t.Optional(t.Number({ minimum: 0 })),
+        ...paginationQuery,
         published: t.Optional(t.Boolean()),
+        authorId: t.Optional(t.String({ format: 'uuid' })),
+        createdFrom: t.Optional(t.String({ format: 'date-time' })),
+        createdTo: t.Optional(t.String({ format: 'date-time' })),
+        titlePrefix: t.Optional(t.String({ minLength: 1, maxLength: 255 })),
+        q: t.Optional(t.String({ minLength: 1, maxLength: 200 })),
+        sortBy: t.Optional(t.UnionEnum(['createdAt', 'updatedAt', 'title'])),
+        sortOrder: t.Optional(t.UnionEnum(['asc', 'desc'])),
+        tag: t.Optional(
+          t.Array(t.String({ minLength: 1, maxLength: 50 }), {
+            maxItems: 10,
+            description: 'Tag names; repeat the parameter for several (`?tag=a&tag=b`)',
+          })
+        ),
+        tagMatch: t.Optional(
+          t.UnionEnum(['any', 'all'], { description: 'Posts with any (default) or all of the `tag` names' })
+        ),
       }),
+      response: {
+        200: pageEnvelope(postListItemSchema),
+        ...errorResponses(400, 401, 403, 503),
+      },
       detail: {
         tags: ['Posts'],
         summary: 'List all posts',
-        description: 'Get paginated list of posts (uses replica database)',
+        description:
+          'Get paginated list of posts with their tags and visible comment counts; filters (including by tag), sorting and full-text search `q` (uses replica database)',
       },
     }
   )
@@ -88,59 +188,60 @@ export const postRoutes = new Elysia({ prefix: '/posts' })
    */
   .get(
     '/:id',
-    async ({ params, set }) => {
-      try {
-        // Read from replica database with author information
-        const [post] = await dbReplica
-          .select({
-            id: posts.id,
-            title: posts.title,
-            content: posts.content,
-            published: posts.published,
-            authorId: posts.authorId,
-            createdAt: posts.createdAt,
-            updatedAt: posts.updatedAt,
-            author: {
-              id: users.id,
-              name: users.name,
-              email: users.email,
-              image: users.image,
-            },
-          })
-          .from(posts)
-          .innerJoin(users, eq(posts.authorId, users.id))
-          .where(eq(posts.id, params.id))
-          .limit(1);
-
-        if (!post) {
-          set.status = 404;
-          return {
-            success: false,
-            message: 'Post not found',
-          };
-        }
+    async ({ params, session, set }) => {
+      // Read from replica database with author information
+      // (primary if this session has unreplicated writes)
+      const db = await getReadDatabase(session.id);
+      const [post] = await db
+        .select({
+          id: posts.id,
+          title: posts.title,
+          content: posts.content,
+          published: posts.published,
+          version: posts.version,
+          authorId: posts.authorId,
+          tags: postTagNames,
+          createdAt: posts.createdAt,
+          updatedAt: posts.updatedAt,
+          author: {
+            id: users.id,
+            name: users.name,
+            email: users.email,
+            image: users.image,
+          },
+        })
+        .from(posts)
+        .innerJoin(users, eq(posts.authorId, users.id))
+        .where(and(eq(posts.id, params.id), isNull(posts.deletedAt)))
+        .limit(1);
 
-        return {
-          success: true,
-          data: post,
-        };
-      } catch (error) {
-        console.error('Error fetching post:', error);
-        set.status = 500;
-        return {
-          success: false,
-          message: 'Failed to fetch post',
-        };
+      if (!post) {
+        throw new NotFoundError('Post not found');
       }
+
+      // Conditional GET: notModified answers 304 if the client's copy is current
+      // The author is embedded, so a profile edit must change the ETag as well
+      set.headers['etag'] = toETag(post.version, post.author);
+
+      return {
+        success: true,
+        data: post,
+      };
     },
     {
+      beforeHandle: requireScope('posts:read'),
+      mapResponse: notModified,
       params: t.Object({
         id: t.String({ format: 'uuid' }),
       }),
+      response: {
+        200: dataEnvelope(postWithAuthorSchema),
+        ...errorResponses(400, 401, 403, 404, 503),
+      },
       detail: {
         tags: ['Posts'],
         summary: 'Get post by ID',
-        description: 'Get specific post by ID (uses replica database)',
+        description: 'Get specific post by ID with an ETag; honors If-None-Match (uses replica database)',
       },
     }
   )
@@ -151,10 +252,10 @@ export const postRoutes = new Elysia({ prefix: '/posts' })
    */
   .post(
     '/',
-    async ({ body, user, set }) => {
-      try {
-        // Write to primary database
-        const [newPost] = await dbPrimary
+    async ({ body, user, session, set }) => {
+      // Write to primary database; the post and its tags commit together
+      const newPost = await withTransaction(async (tx) => {
+        const [created] = await tx
           .insert(posts)
           .values({
             title: body.title,
@@ -167,36 +268,47 @@ export const postRoutes = new Elysia({ prefix: '/posts' })
             title: posts.title,
             content: posts.content,
             published: posts.published,
+            version: posts.version,
             authorId: posts.authorId,
             createdAt: posts.createdAt,
             updatedAt: posts.updatedAt,
           });
 
-        set.status = 201;
-        return {
-          success: true,
-          message: 'Post created successfully',
-          data: newPost,
-        };
-      } catch (error) {
-        console.error('Error creating post:', error);
-        set.status = 400;
-        return {
-          success: false,
-          message: error instanceof Error ? error.message : 'Failed to create post',
-        };
-      }
+        const postTagList = await setPostTags(tx, created.id, body.tags ?? []);
+        return { ...created, tags: postTagList };
+      });
+
+      await recordSessionWrite(session.id);
+
+      set.headers['etag'] = toETag(newPost.version);
+      set.status = 201;
+      return {
+        success: true,
+        message: 'Post created successfully',
+        data: newPost,
+      };
     },
     {
+      beforeHandle: requireScope('posts:write'),
       body: t.Object({
         title: t.String({ minLength: 1, maxLength: 255 }),
-        content: t.String({ minLength: 1 }),
+        content: t.String({ minLength: 1, maxLength: 100000 }),
         published: t.Optional(t.Boolean()),
+        tags: t.Optional(
+          t.Array(t.String({ minLength: 1, maxLength: 50 }), {
+            maxItems: 10,
+            description: 'Replaces the tags of the post; names are trimmed and lowercased',
+          })
+        ),
       }),
+      response: {
+        201: messageEnvelope(postSchema),
+        ...errorResponses(400, 401, 403, 503),
+      },
       detail: {
         tags: ['Posts'],
         summary: 'Create new post',
-        description: 'Create a new post (uses primary database)',
+        description: 'Create a new post with optional tags, written in one transaction (uses primary database)',
       },
     }
   )
@@ -207,38 +319,52 @@ export const postRoutes = new Elysia({ prefix: '/posts' })
    */
   .patch(
     '/:id',
-    async ({ params, body, user, set }) => {
-      try {
-        // Check if post exists and user is the author
-        const [existingPost] = await dbPrimary
-          .select({ authorId: posts.authorId })
+    async ({ params, body, request, user, session, set }) => {
+      // Lock the row so the author check and update see the same post
+      const updatedPost = await withTransaction(async (tx) => {
+        const [existingPost] = await tx
+          .select({
+            authorId: posts.authorId,
+            title: posts.title,
+            content: posts.content,
+            published: posts.published,
+            version: posts.version,
+          })
           .from(posts)
-          .where(eq(posts.id, params.id))
-          .limit(1);
+          .where(and(eq(posts.id, params.id), isNull(posts.deletedAt)))
+          .limit(1)
+          .for('update');
 
         if (!existingPost) {
-          set.status = 404;
-          return {
-            success: false,
-            message: 'Post not found',
-          };
+          throw new NotFoundError('Post not found');
+        }
+
+        // Authors can update their own posts; others need posts:update:any
+        if (!canActOn(user, existingPost.authorId, 'posts:update:any')) {
+          throw new ForbiddenError('You can only update your own posts');
         }
 
-        if (existingPost.authorId !== user.id) {
-          set.status = 403;
-          return {
-            success: false,
-            message: 'You can only update your own posts',
-          };
+        // Optimistic concurrency: reject if the client's copy is stale
+        if (!matchesIfMatch(request.headers.get('if-match'), existingPost.version)) {
+          throw new PreconditionFailedError('Post was modified by someone else; fetch it again and retry');
         }
 
-        // Write to primary database
-        const [updatedPost] = await dbPrimary
+        // Revisions only track title, content and published; tags-only or no-op edits add none
+        const revisedFieldsChanged =
+          (body.title !== undefined && body.title !== existingPost.title) ||
+          (body.content !== undefined && body.content !== existingPost.content) ||
+          (body.published !== undefined && body.published !== existingPost.published);
+        if (revisedFieldsChanged) {
+          await recordPostRevision(tx, params.id, user.id);
+        }
+
+        const [updated] = await tx
           .update(posts)
           .set({
             ...(body.title && { title: body.title }),
             ...(body.content && { content: body.content }),
             ...(body.published !== undefined && { published: body.published }),
+            version: sql`${posts.version} + 1`,
             updatedAt: new Date(),
           })
           .where(eq(posts.id, params.id))
@@ -247,134 +373,179 @@ export const postRoutes = new Elysia({ prefix: '/posts' })
             title: posts.title,
             content: posts.content,
             published: posts.published,
+            version: posts.version,
             authorId: posts.authorId,
             createdAt: posts.createdAt,
             updatedAt: posts.updatedAt,
           });
 
-        return {
-          success: true,
-          message: 'Post updated successfully',
-          data: updatedPost,
-        };
-      } catch (error) {
-        console.error('Error updating post:', error);
-        set.status = 400;
-        return {
-          success: false,
-          message: error instanceof Error ? error.message : 'Failed to update post',
-        };
-      }
+        // Tags are only replaced when sent
+        const postTagList =
+          body.tags !== undefined ? await setPostTags(tx, params.id, body.tags) : await getPostTags(tx, params.id);
+        return { ...updated, tags: postTagList };
+      });
+
+      await recordSessionWrite(session.id);
+
+      set.headers['etag'] = toETag(updatedPost.version);
+      return {
+        success: true,
+        message: 'Post updated successfully',
+        data: updatedPost,
+      };
     },
     {
+      beforeHandle: requireScope('posts:write'),
       params: t.Object({
         id: t.String({ format: 'uuid' }),
       }),
       body: t.Object({
         title: t.Optional(t.String({ minLength: 1, maxLength: 255 })),
-        content: t.Optional(t.String({ minLength: 1 })),
+        content: t.Optional(t.String({ minLength: 1, maxLength: 100000 })),
         published: t.Optional(t.Boolean()),
+        tags: t.Optional(
+          t.Array(t.String({ minLength: 1, maxLength: 50 }), {
+            maxItems: 10,
+            description: 'Replaces the tags of the post; names are trimmed and lowercased',
+          })
+        ),
       }),
+      response: {
+        200: messageEnvelope(postSchema),
+        ...errorResponses(400, 401, 403, 404, 412, 503),
+      },
       detail: {
         tags: ['Posts'],
         summary: 'Update post',
-        description: 'Update post information (uses primary database)',
+        description: 'Update post information; `tags` replaces all tags in the same transaction. The previous title, content and published state is kept as a revision when one of them changes. Honors If-Match (uses primary database)',
       },
     }
   )
 
   /**
    * DELETE /posts/:id
-   * Delete post by ID (write to primary)
+   * Soft delete post by ID (write to primary)
    */
   .delete(
     '/:id',
-    async ({ params, user, set }) => {
-      try {
-        // Check if post exists and user is the author
-        const [existingPost] = await dbPrimary
-          .select({ authorId: posts.authorId })
+    async ({ params, request, user, session }) => {
+      // Lock the row so the author check and delete see the same post
+      await withTransaction(async (tx) => {
+        const [existingPost] = await tx
+          .select({ authorId: posts.authorId, version: posts.version })
           .from(posts)
-          .where(eq(posts.id, params.id))
-          .limit(1);
+          .where(and(eq(posts.id, params.id), isNull(posts.deletedAt)))
+          .limit(1)
+          .for('update');
 
         if (!existingPost) {
-          set.status = 404;
-          return {
-            success: false,
-            message: 'Post not found',
-          };
+          throw new NotFoundError('Post not found');
         }
 
-        if (existingPost.authorId !== user.id) {
-          set.status = 403;
-          return {
-            success: false,
-            message: 'You can only delete your own posts',
-          };
+        // Authors can delete their own posts; others need posts:delete:any
+        if (!canActOn(user, existingPost.authorId, 'posts:delete:any')) {
+          throw new ForbiddenError('You can only delete your own posts');
         }
 
-        // Write to primary database
-        await dbPrimary
-          .delete(posts)
-          .where(eq(posts.id, params.id))
-          .returning({ id: posts.id });
-
-        return {
-          success: true,
-          message: 'Post deleted successfully',
-        };
-      } catch (error) {
-        console.error('Error deleting post:', error);
-        set.status = 400;
-        return {
-          success: false,
-          message: error instanceof Error ? error.message : 'Failed to delete post',
-        };
-      }
+        // Optimistic concurrency: reject if the client's copy is stale
+        if (!matchesIfMatch(request.headers.get('if-match'), existingPost.version)) {
+          throw new PreconditionFailedError('Post was modified by someone else; fetch it again and retry');
+        }
+
+        // Soft delete; the purge job removes the row after the retention period
+        await tx
+          .update(posts)
+          .set({ deletedAt: new Date(), version: sql`${posts.version} + 1` })
+          .where(eq(posts.id, params.id));
+      });
+
+      await recordSessionWrite(session.id);
+
+      return {
+        success: true,
+        message: 'Post deleted successfully',
+      };
     },
     {
+      beforeHandle: requireScope('posts:write'),
       params: t.Object({
         id: t.String({ format: 'uuid' }),
       }),
+      response: {
+        200: messageOnlyEnvelope,
+        ...errorResponses(400, 401, 403, 404, 412, 503),
+      },
       detail: {
         tags: ['Posts'],
         summary: 'Delete post',
-        description: 'Delete post (uses primary database)',
+        description: 'Soft delete post; it can be restored until purged. Honors If-Match (uses primary database)',
       },
     }
   )
 
-  // Error handler for post routes
-  .onError(({ code, error, set }) => {
-    if (error instanceof UnauthorizedError) {
-      set.status = 401;
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
+  /**
+   * POST /posts/:id/restore
+   * Restore a soft-deleted post (write to primary)
+   */
+  .post(
+    '/:id/restore',
+    async ({ params, user, session }) => {
+      const restoredPost = await withTransaction(async (tx) => {
+        const [deletedPost] = await tx
+          .select({ authorId: posts.authorId })
+          .from(posts)
+          .where(and(eq(posts.id, params.id), isNotNull(posts.deletedAt)))
+          .limit(1)
+          .for('update');
 
-    if (code === 'VALIDATION') {
-      set.status = 400;
-      return {
-        success: false,
-        message: 'Validation error',
-        error: error.message,
-      };
-    }
+        if (!deletedPost) {
+          throw new NotFoundError('Deleted post not found');
+        }
+
+        // Authors can restore their own posts; others need posts:restore:any
+        if (!canActOn(user, deletedPost.authorId, 'posts:restore:any')) {
+          throw new ForbiddenError('You can only restore your own posts');
+        }
+
+        const [restored] = await tx
+          .update(posts)
+          .set({ deletedAt: null, version: sql`${posts.version} + 1` })
+          .where(eq(posts.id, params.id))
+          .returning({
+            id: posts.id,
+            title: posts.title,
+            content: posts.content,
+            published: posts.published,
+            version: posts.version,
+            authorId: posts.authorId,
+            createdAt: posts.createdAt,
+            updatedAt: posts.updatedAt,
+          });
+
+        return { ...restored, tags: await getPostTags(tx, params.id) };
+      });
+
+      await recordSessionWrite(session.id);
 
-    if (code === 'NOT_FOUND') {
-      set.status = 404;
       return {
-        success: false,
-        message: 'Route not found',
+        success: true,
+        message: 'Post restored successfully',
+        data: restoredPost,
       };
+    },
+    {
+      beforeHandle: requireScope('posts:write'),
+      params: t.Object({
+        id: t.String({ format: 'uuid' }),
+      }),
+      response: {
+        200: messageEnvelope(postSchema),
+        ...errorResponses(400, 401, 403, 404, 503),
+      },
+      detail: {
+        tags: ['Posts'],
+        summary: 'Restore post',
+        description: 'Restore a soft-deleted post before it is purged (uses primary database)',
+      },
     }
-
-    set.status = 500;
-    return {
-      success: false,
-      message: 'Internal server error',
-    };
-  });
+  );
@@ -0,0 +1,275 @@
+import { Elysia, t } from 'elysia';
+import { and, desc, eq, isNull, sql } from 'drizzle-orm';
+import { getReadDatabase, recordSessionWrite, withTransaction } from '../config/database';
+import { postRevisions, posts, users } from '../db/schema';
+import { authMiddleware, requireScope } from '../middleware/auth';
+import { ForbiddenError, NotFoundError, PreconditionFailedError } from '../lib/errors';
+import {
+  dataEnvelope,
+  errorResponses,
+  messageEnvelope,
+  postSchema,
+  revisionDetailSchema,
+  revisionSummarySchema,
+} from '../lib/schemas';
+import { canActOn } from '../lib/permissions';
+import { createUnifiedDiff } from '../lib/diff';
+import { recordPostRevision } from '../lib/revisions';
+import { getPostTags } from '../lib/tags';
+import { matchesIfMatch, toETag } from '../lib/etag';
+
+/**
+ * Post revision routes
+ * - GET operations use replica database
+ * - Restore runs in a primary transaction and is itself recorded as a revision
+ */
+export const postRevisionRoutes = new Elysia({ prefix: '/posts' })
+  // Apply authentication middleware to all routes
+  .derive(authMiddleware)
+
+  /**
+   * GET /posts/:id/revisions
+   * List revisions of a post, newest first (read from replica)
+   */
+  .get(
+    '/:id/revisions',
+    async ({ params, query, session }) => {
+      const limit = query.limit || 10;
+      const offset = query.offset || 0;
+
+      // Read from replica database (primary if this session has unreplicated writes)
+      const db = await getReadDatabase(session.id);
+      const [post] = await db
+        .select({ id: posts.id })
+        .from(posts)
+        .where(and(eq(posts.id, params.id), isNull(posts.deletedAt)))
+        .limit(1);
+
+      if (!post) {
+        throw new NotFoundError('Post not found');
+      }
+
+      const revisionList = await db
+        .select({
+          id: postRevisions.id,
+          revision: postRevisions.revision,
+          title: postRevisions.title,
+          published: postRevisions.published,
+          createdAt: postRevisions.createdAt,
+          editor: {
+            id: users.id,
+            name: users.name,
+          },
+        })
+        .from(postRevisions)
+        .leftJoin(users, eq(postRevisions.editorId, users.id))
+        .where(eq(postRevisions.postId, params.id))
+        .orderBy(desc(postRevisions.revision))
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        success: true,
+        data: revisionList,
+        pagination: {
+          limit,
+          offset,
+        },
+      };
+    },
+    {
+      beforeHandle: requireScope('posts:read'),
+      params: t.Object({
+        id: t.String({ format: 'uuid' }),
+      }),
+      query: t.Object({
+        limit: t.Optional(t.Number({ minimum: 1, maximum: 100 })),
+        offset: t.Optional(t.Number({ minimum: 0 })),
+      }),
+      response: {
+        200: t.Object({
+          success: t.Literal(true),
+          data: t.Array(revisionSummarySchema),
+          pagination: t.Object({ limit: t.Integer(), offset: t.Integer() }),
+        }),
+        ...errorResponses(400, 401, 403, 404, 503),
+      },
+      detail: {
+        tags: ['Posts'],
+        summary: 'List post revisions',
+        description: 'Get previous versions of a post, newest first (uses replica database)',
+      },
+    }
+  )
+
+  /**
+   * GET /posts/:id/revisions/:revId
+   * Get a revision with a diff against the current post (read from replica)
+   */
+  .get(
+    '/:id/revisions/:revId',
+    async ({ params, session }) => {
+      // Read from replica database (primary if this session has unreplicated writes)
+      const db = await getReadDatabase(session.id);
+      const [post] = await db
+        .select({
+          title: posts.title,
+          content: posts.content,
+        })
+        .from(posts)
+        .where(and(eq(posts.id, params.id), isNull(posts.deletedAt)))
+        .limit(1);
+
+      const [revision] = post
+        ? await db
+            .select({
+              id: postRevisions.id,
+              postId: postRevisions.postId,
+              revision: postRevisions.revision,
+              title: postRevisions.title,
+              content: postRevisions.content,
+              published: postRevisions.published,
+              createdAt: postRevisions.createdAt,
+              editor: {
+                id: users.id,
+                name: users.name,
+              },
+            })
+            .from(postRevisions)
+            .leftJoin(users, eq(postRevisions.editorId, users.id))
+            .where(and(eq(postRevisions.id, params.revId), eq(postRevisions.postId, params.id)))
+            .limit(1)
+        : [];
+
+      if (!post || !revision) {
+        throw new NotFoundError(post ? 'Revision not found' : 'Post not found');
+      }
+
+      const labels = { from: `revision ${revision.revision}`, to: 'current' };
+
+      return {
+        success: true,
+        data: {
+          ...revision,
+          diff: {
+            title: createUnifiedDiff(revision.title, post.title, labels),
+            content: createUnifiedDiff(revision.content, post.content, labels),
+          },
+        },
+      };
+    },
+    {
+      beforeHandle: requireScope('posts:read'),
+      params: t.Object({
+        id: t.String({ format: 'uuid' }),
+        revId: t.String({ format: 'uuid' }),
+      }),
+      response: {
+        200: dataEnvelope(revisionDetailSchema),
+        ...errorResponses(400, 401, 403, 404, 503),
+      },
+      detail: {
+        tags: ['Posts'],
+        summary: 'Get post revision',
+        description: 'Get a previous version of a post with a unified diff against the current version (uses replica database)',
+      },
+    }
+  )
+
+  /**
+   * POST /posts/:id/revisions/:revId/restore
+   * Roll a post back to a revision (write to primary)
+   */
+  .post(
+    '/:id/revisions/:revId/restore',
+    async ({ params, request, user, session, set }) => {
+      const restoredPost = await withTransaction(async (tx) => {
+        const [existingPost] = await tx
+          .select({ authorId: posts.authorId, version: posts.version })
+          .from(posts)
+          .where(and(eq(posts.id, params.id), isNull(posts.deletedAt)))
+          .limit(1)
+          .for('update');
+
+        if (!existingPost) {
+          throw new NotFoundError('Post not found');
+        }
+
+        // Rolling back is an update: authors, or users with posts:update:any
+        if (!canActOn(user, existingPost.authorId, 'posts:update:any')) {
+          throw new ForbiddenError('You can only restore revisions of your own posts');
+        }
+
+        // Optimistic concurrency: a rollback must not silently overwrite a newer edit
+        if (!matchesIfMatch(request.headers.get('if-match'), existingPost.version)) {
+          throw new PreconditionFailedError('Post was modified by someone else; fetch it again and retry');
+        }
+
+        const [revision] = await tx
+          .select({
+            title: postRevisions.title,
+            content: postRevisions.content,
+            published: postRevisions.published,
+          })
+          .from(postRevisions)
+          .where(and(eq(postRevisions.id, params.revId), eq(postRevisions.postId, params.id)))
+          .limit(1);
+
+        if (!revision) {
+          throw new NotFoundError('Revision not found');
+        }
+
+        // Keep the state being replaced so the rollback can itself be undone
+        await recordPostRevision(tx, params.id, user.id);
+
+        const [restored] = await tx
+          .update(posts)
+          .set({
+            title: revision.title,
+            content: revision.content,
+            published: revision.published,
+            version: sql`${posts.version} + 1`,
+            updatedAt: new Date(),
+          })
+          .where(eq(posts.id, params.id))
+          .returning({
+            id: posts.id,
+            title: posts.title,
+            content: posts.content,
+            published: posts.published,
+            version: posts.version,
+            authorId: posts.authorId,
+            createdAt: posts.createdAt,
+            updatedAt: posts.updatedAt,
+          });
+
+        // Tags are not part of revisions; the post keeps its current ones
+        return { ...restored, tags: await getPostTags(tx, params.id) };
+      });
+
+      await recordSessionWrite(session.id);
+
+      set.headers['etag'] = toETag(restoredPost.version);
+      return {
+        success: true,
+        message: 'Post restored to revision successfully',
+        data: restoredPost,
+      };
+    },
+    {
+      beforeHandle: requireScope('posts:write'),
+      params: t.Object({
+        id: t.String({ format: 'uuid' }),
+        revId: t.String({ format: 'uuid' }),
+      }),
+      response: {
+        200: messageEnvelope(postSchema),
+        ...errorResponses(400, 401, 403, 404, 412, 503),
+      },
+      detail: {
+        tags: ['Posts'],
+        summary: 'Restore post revision',
+        description: 'Roll a post back to a previous revision. Honors If-Match (uses primary database)',
+      },
+    }
+  );
@@ -0,0 +1,147 @@
+import { Elysia, t } from 'elysia';
+import { and, desc, eq, gt, ne } from 'drizzle-orm';
+import { getReadDatabase, recordSessionWrite, withTransaction } from '../config/database';
+import { sessions } from '../db/schema';
+import { authMiddleware, requireSession } from '../middleware/auth';
+import { NotFoundError } from '../lib/errors';
+import {
+  dataEnvelope,
+  errorResponses,
+  messageEnvelope,
+  messageOnlyEnvelope,
+  revokedSessionsSchema,
+  sessionInfoSchema,
+} from '../lib/schemas';
+import { parseUserAgent } from '../lib/user-agent';
+
+/**
+ * Session management routes for the current user
+ * Revocation deletes the session row and takes effect on the next request
+ * (authMiddleware bypasses Better-Auth's cookie cache)
+ */
+export const sessionRoutes = new Elysia({ prefix: '/auth/sessions' })
+  // Apply authentication middleware to all routes
+  .derive(authMiddleware)
+  // Sessions are managed from a login session only, never with an API token
+  .onBeforeHandle(requireSession)
+
+  /**
+   * GET /auth/sessions
+   * List the user's active sessions (read from replica)
+   */
+  .get(
+    '/',
+    async ({ user, session }) => {
+      // Read from replica database (primary if this session has unreplicated writes)
+      const db = await getReadDatabase(session.id);
+      const rows = await db
+        .select({
+          id: sessions.id,
+          ipAddress: sessions.ipAddress,
+          userAgent: sessions.userAgent,
+          createdAt: sessions.createdAt,
+          lastActiveAt: sessions.updatedAt,
+          expiresAt: sessions.expiresAt,
+        })
+        .from(sessions)
+        .where(and(eq(sessions.userId, user.id), gt(sessions.expiresAt, new Date())))
+        .orderBy(desc(sessions.updatedAt));
+
+      return {
+        success: true,
+        data: rows.map((row) => ({
+          ...row,
+          device: parseUserAgent(row.userAgent),
+          current: row.id === session.id,
+        })),
+      };
+    },
+    {
+      response: {
+        200: dataEnvelope(t.Array(sessionInfoSchema)),
+        ...errorResponses(401, 403, 503),
+      },
+      detail: {
+        tags: ['Auth'],
+        summary: 'List sessions',
+        description: 'List active sessions with device info; the requesting session has current: true (uses replica database)',
+      },
+    }
+  )
+
+  /**
+   * POST /auth/sessions/revoke-others
+   * Revoke every session of the user except the current one (write to primary)
+   */
+  .post(
+    '/revoke-others',
+    async ({ user, session }) => {
+      const revoked = await withTransaction((tx) =>
+        tx
+          .delete(sessions)
+          .where(and(eq(sessions.userId, user.id), ne(sessions.id, session.id)))
+          .returning({ id: sessions.id })
+      );
+
+      await recordSessionWrite(session.id);
+
+      return {
+        success: true,
+        message: 'Other sessions revoked',
+        data: { revoked: revoked.length },
+      };
+    },
+    {
+      response: {
+        200: messageEnvelope(revokedSessionsSchema),
+        ...errorResponses(401, 403, 503),
+      },
+      detail: {
+        tags: ['Auth'],
+        summary: 'Revoke other sessions',
+        description: 'Sign out every other device (uses primary database)',
+      },
+    }
+  )
+
+  /**
+   * DELETE /auth/sessions/:id
+   * Revoke one of the user's sessions (write to primary)
+   */
+  .delete(
+    '/:id',
+    async ({ params, user, session }) => {
+      // Scoped to the user, so other users' sessions look like missing ones
+      const [revoked] = await withTransaction((tx) =>
+        tx
+          .delete(sessions)
+          .where(and(eq(sessions.id, params.id), eq(sessions.userId, user.id)))
+          .returning({ id: sessions.id })
+      );
+
+      if (!revoked) {
+        throw new NotFoundError('Session not found');
+      }
+
+      await recordSessionWrite(session.id);
+
+      return {
+        success: true,
+        message: revoked.id === session.id ? 'Current session revoked' : 'Session revoked',
+      };
+    },
+    {
+      params: t.Object({
+        id: t.String({ minLength: 1 }),
+      }),
+      response: {
+        200: messageOnlyEnvelope,
+        ...errorResponses(400, 401, 403, 404, 503),
+      },
+      detail: {
+        tags: ['Auth'],
+        summary: 'Revoke session',
+        description: 'Sign out one device; revoking the current session works like logout without clearing the cookie (uses primary database)',
+      },
+    }
+  );
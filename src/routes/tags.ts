@@ -0,0 +1,71 @@
+import { Elysia, t } from 'elysia';
+import { and, asc, count, desc, eq, isNull } from 'drizzle-orm';
+import { getReadDatabase } from '../config/database';
+import { postTags, posts, tags } from '../db/schema';
+import { authMiddleware, requireScope } from '../middleware/auth';
+import { errorResponses, tagSchema } from '../lib/schemas';
+
+/**
+ * Tag routes (read-only; tags are written through the posts they are on)
+ */
+export const tagRoutes = new Elysia({ prefix: '/tags' })
+  // Apply authentication middleware to all routes
+  .derive(authMiddleware)
+
+  /**
+   * GET /tags
+   * List tags in use with their post counts (read from replica)
+   */
+  .get(
+    '/',
+    async ({ query, session }) => {
+      const limit = query.limit || 50;
+      const offset = query.offset || 0;
+
+      // Read from replica database (primary if this session has unreplicated writes)
+      // Tags only on deleted posts drop out through the inner joins
+      const db = await getReadDatabase(session.id);
+      const postCount = count(postTags.postId);
+      const tagList = await db
+        .select({
+          name: tags.name,
+          postCount,
+        })
+        .from(tags)
+        .innerJoin(postTags, eq(postTags.tagId, tags.id))
+        .innerJoin(posts, and(eq(postTags.postId, posts.id), isNull(posts.deletedAt)))
+        .groupBy(tags.id)
+        .orderBy(desc(postCount), asc(tags.name))
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        success: true,
+        data: tagList,
+        pagination: {
+          limit,
+          offset,
+        },
+      };
+    },
+    {
+      beforeHandle: requireScope('posts:read'),
+      query: t.Object({
+        limit: t.Optional(t.Number({ minimum: 1, maximum: 100 })),
+        offset: t.Optional(t.Number({ minimum: 0 })),
+      }),
+      response: {
+        200: t.Object({
+          success: t.Literal(true),
+          data: t.Array(tagSchema),
+          pagination: t.Object({ limit: t.Integer(), offset: t.Integer() }),
+        }),
+        ...errorResponses(400, 401, 403, 503),
+      },
+      detail: {
+        tags: ['Posts'],
+        summary: 'List tags',
+        description: 'Get tags used by at least one post, most used first, with their post counts (uses replica database)',
+      },
+    }
+  );
@@ -0,0 +1,161 @@
+import { Elysia, t } from 'elysia';
+import { and, desc, eq } from 'drizzle-orm';
+import { getReadDatabase, recordSessionWrite, withTransaction } from '../config/database';
+import { apiTokens, apiTokenScopes } from '../db/schema';
+import { authMiddleware, requireSession } from '../middleware/auth';
+import { generateApiToken } from '../lib/api-tokens';
+import { NotFoundError } from '../lib/errors';
+import {
+  apiTokenSchema,
+  createdApiTokenSchema,
+  dataEnvelope,
+  errorResponses,
+  messageEnvelope,
+  messageOnlyEnvelope,
+} from '../lib/schemas';
+
+const apiTokenColumns = {
+  id: apiTokens.id,
+  name: apiTokens.name,
+  prefix: apiTokens.prefix,
+  scopes: apiTokens.scopes,
+  expiresAt: apiTokens.expiresAt,
+  lastUsedAt: apiTokens.lastUsedAt,
+  createdAt: apiTokens.createdAt,
+};
+
+/**
+ * Personal API token routes
+ * Tokens authenticate machine clients as their user, limited to their scopes
+ */
+export const tokenRoutes = new Elysia({ prefix: '/auth/tokens' })
+  // Apply authentication middleware to all routes
+  .derive(authMiddleware)
+  // A token must not be able to mint or revoke tokens
+  .onBeforeHandle(requireSession)
+
+  /**
+   * GET /auth/tokens
+   * List the user's API tokens (read from replica)
+   */
+  .get(
+    '/',
+    async ({ user, session }) => {
+      // Read from replica database (primary if this session has unreplicated writes)
+      const db = await getReadDatabase(session.id);
+      const tokens = await db
+        .select(apiTokenColumns)
+        .from(apiTokens)
+        .where(eq(apiTokens.userId, user.id))
+        .orderBy(desc(apiTokens.createdAt));
+
+      return {
+        success: true,
+        data: tokens,
+      };
+    },
+    {
+      response: {
+        200: dataEnvelope(t.Array(apiTokenSchema)),
+        ...errorResponses(401, 403, 503),
+      },
+      detail: {
+        tags: ['Auth'],
+        summary: 'List API tokens',
+        description: 'List personal API tokens, including expired ones; the tokens themselves are never returned (uses replica database)',
+      },
+    }
+  )
+
+  /**
+   * POST /auth/tokens
+   * Create an API token (write to primary)
+   */
+  .post(
+    '/',
+    async ({ body, user, session, set }) => {
+      const { token, tokenHash, prefix } = generateApiToken();
+      const expiresAt = body.expiresInDays ? new Date(Date.now() + body.expiresInDays * 24 * 60 * 60 * 1000) : null;
+
+      const [created] = await withTransaction((tx) =>
+        tx
+          .insert(apiTokens)
+          .values({
+            userId: user.id,
+            name: body.name,
+            tokenHash,
+            prefix,
+            // Stored without duplicates so listings stay tidy
+            scopes: [...new Set(body.scopes)],
+            expiresAt,
+          })
+          .returning(apiTokenColumns)
+      );
+
+      await recordSessionWrite(session.id);
+
+      set.status = 201;
+      return {
+        success: true,
+        message: 'API token created; copy it now, it will not be shown again',
+        data: { ...created, token },
+      };
+    },
+    {
+      body: t.Object({
+        name: t.String({ minLength: 1, maxLength: 255 }),
+        scopes: t.Array(t.UnionEnum(apiTokenScopes), { minItems: 1 }),
+        expiresInDays: t.Optional(t.Integer({ minimum: 1, maximum: 365, description: 'Omit for a token that never expires' })),
+      }),
+      response: {
+        201: messageEnvelope(createdApiTokenSchema),
+        ...errorResponses(400, 401, 403, 503),
+      },
+      detail: {
+        tags: ['Auth'],
+        summary: 'Create API token',
+        description: 'Create a personal API token with the given scopes; `:write` scopes include `:read` (uses primary database)',
+      },
+    }
+  )
+
+  /**
+   * DELETE /auth/tokens/:id
+   * Revoke an API token (write to primary)
+   */
+  .delete(
+    '/:id',
+    async ({ params, user, session }) => {
+      const [revoked] = await withTransaction((tx) =>
+        tx
+          .delete(apiTokens)
+          .where(and(eq(apiTokens.id, params.id), eq(apiTokens.userId, user.id)))
+          .returning({ id: apiTokens.id })
+      );
+
+      if (!revoked) {
+        throw new NotFoundError('API token not found');
+      }
+
+      await recordSessionWrite(session.id);
+
+      return {
+        success: true,
+        message: 'API token revoked',
+      };
+    },
+    {
+      params: t.Object({
+        id: t.String({ format: 'uuid' }),
+      }),
+      response: {
+        200: messageOnlyEnvelope,
+        ...errorResponses(400, 401, 403, 404, 503),
+      },
+      detail: {
+        tags: ['Auth'],
+        summary: 'Revoke API token',
+        description: 'Delete the token; requests using it fail with 401 immediately (uses primary database)',
+      },
+    }
+  );
@@ -0,0 +1,230 @@
+import { Elysia, t } from 'elysia';
+import { auth, forwardAuthHeaders } from '../lib/auth';
+import { clearLoginFailures, rateLimitConfig } from '../lib/rate-limit';
+import {
+  authResultSchema,
+  backupCodesSchema,
+  errorResponses,
+  messageEnvelope,
+  messageOnlyEnvelope,
+  twoFactorEnrollmentSchema,
+} from '../lib/schemas';
+import { withTwoFactorToken } from '../lib/two-factor';
+import { byIp, bySession, rateLimit, type RateLimitRule } from '../middleware/rate-limit';
+
+/**
+ * Limits for code verification: per IP, per pending login challenge and per session (enrollment)
+ */
+const verifyRateLimit = (route: string): RateLimitRule[] => [
+  { name: `${route}:ip`, limit: rateLimitConfig.twoFactor.perIp, windowMs: rateLimitConfig.twoFactor.windowMs, key: byIp },
+  {
+    name: `${route}:challenge`,
+    limit: rateLimitConfig.twoFactor.perChallenge,
+    windowMs: rateLimitConfig.twoFactor.windowMs,
+    key: ({ request, body }) =>
+      (body as { twoFactorToken?: string }).twoFactorToken ??
+      request.headers.get('cookie')?.match(/(?:^|;\s*)[^=;]*\.two_factor=([^;]+)/)?.[1] ??
+      null,
+  },
+  { name: `${route}:session`, limit: rateLimitConfig.twoFactor.perChallenge, windowMs: rateLimitConfig.twoFactor.windowMs, key: bySession },
+];
+
+const verifyBody = t.Object({
+  code: t.String({ minLength: 1 }),
+  twoFactorToken: t.Optional(t.String({ description: 'Challenge token from /auth/login, if the two_factor cookie is not sent' })),
+  trustDevice: t.Optional(t.Boolean({ description: 'Skip the second step on this device for 30 days' })),
+});
+
+/**
+ * Two-factor authentication routes (TOTP and backup codes)
+ * Enrollment: enable → scan the URI → verify with a code; login: /auth/login → verify
+ */
+export const twoFactorRoutes = new Elysia({ prefix: '/auth/two-factor' })
+  /**
+   * POST /auth/two-factor/enable
+   * Start TOTP enrollment
+   * Protected route - requires authentication
+   */
+  .post(
+    '/enable',
+    async ({ body, request }) => {
+      // 2FA is only switched on once /verify confirms a code from the authenticator
+      const enrollment = await auth.api.enableTwoFactor({
+        body: { password: body.password },
+        headers: request.headers as unknown as Record<string, string>,
+      });
+
+      return {
+        success: true,
+        message: 'Scan the TOTP URI and confirm with a code to finish enabling two-factor authentication',
+        data: enrollment,
+      };
+    },
+    {
+      body: t.Object({
+        password: t.String(),
+      }),
+      response: {
+        200: messageEnvelope(twoFactorEnrollmentSchema),
+        ...errorResponses(400, 401, 503),
+      },
+      detail: {
+        tags: ['Auth'],
+        summary: 'Enable two-factor authentication',
+        description:
+          'Generate a TOTP secret and backup codes; restarting enrollment replaces them. 400 invalid_password for a wrong password',
+      },
+    }
+  )
+
+  /**
+   * POST /auth/two-factor/verify
+   * Verify a TOTP code: completes a pending login or confirms enrollment
+   */
+  .post(
+    '/verify',
+    async ({ body, request, set }) => {
+      const { headers, response } = await auth.api.verifyTOTP({
+        body: { code: body.code, trustDevice: body.trustDevice },
+        headers: await withTwoFactorToken(request.headers, body.twoFactorToken),
+        returnHeaders: true,
+      });
+
+      forwardAuthHeaders(headers, set);
+      // Login complete (or enrollment confirmed): reset the password failure count
+      await clearLoginFailures(response.user.email);
+
+      return {
+        success: true,
+        message: 'Two-factor code verified',
+        data: response,
+      };
+    },
+    {
+      body: verifyBody,
+      beforeHandle: rateLimit(...verifyRateLimit('two-factor-verify')),
+      response: {
+        200: messageEnvelope(authResultSchema),
+        ...errorResponses(400, 401, 429, 503),
+      },
+      detail: {
+        tags: ['Auth'],
+        summary: 'Verify TOTP code',
+        security: [],
+        description:
+          'With a login challenge, issues the session; with a session, confirms enrollment and enables 2FA. 401 invalid_code for a wrong code',
+      },
+    }
+  )
+
+  /**
+   * POST /auth/two-factor/verify-backup-code
+   * Complete a pending login with a one-time backup code
+   */
+  .post(
+    '/verify-backup-code',
+    async ({ body, request, set }) => {
+      // Each backup code works once
+      const { headers, response } = await auth.api.verifyBackupCode({
+        body: { code: body.code, trustDevice: body.trustDevice },
+        headers: await withTwoFactorToken(request.headers, body.twoFactorToken),
+        returnHeaders: true,
+      });
+
+      forwardAuthHeaders(headers, set);
+      await clearLoginFailures(response.user.email);
+
+      return {
+        success: true,
+        message: 'Backup code accepted',
+        data: { ...response, token: response.token ?? null },
+      };
+    },
+    {
+      body: verifyBody,
+      beforeHandle: rateLimit(...verifyRateLimit('two-factor-backup-code')),
+      response: {
+        200: messageEnvelope(authResultSchema),
+        ...errorResponses(400, 401, 429, 503),
+      },
+      detail: {
+        tags: ['Auth'],
+        summary: 'Verify backup code',
+        security: [],
+        description: 'Complete a login with a one-time backup code instead of a TOTP code',
+      },
+    }
+  )
+
+  /**
+   * POST /auth/two-factor/backup-codes
+   * Replace the backup codes
+   * Protected route - requires authentication
+   */
+  .post(
+    '/backup-codes',
+    async ({ body, request }) => {
+      const { backupCodes } = await auth.api.generateBackupCodes({
+        body: { password: body.password },
+        headers: request.headers as unknown as Record<string, string>,
+      });
+
+      return {
+        success: true,
+        message: 'New backup codes generated; the old ones no longer work',
+        data: { backupCodes },
+      };
+    },
+    {
+      body: t.Object({
+        password: t.String(),
+      }),
+      response: {
+        200: messageEnvelope(backupCodesSchema),
+        ...errorResponses(400, 401, 503),
+      },
+      detail: {
+        tags: ['Auth'],
+        summary: 'Regenerate backup codes',
+        description: 'Invalidate the remaining backup codes and issue new ones (2FA must be enabled)',
+      },
+    }
+  )
+
+  /**
+   * POST /auth/two-factor/disable
+   * Turn two-factor authentication off
+   * Protected route - requires authentication
+   */
+  .post(
+    '/disable',
+    async ({ body, request, set }) => {
+      // Deletes the secret and backup codes; the session is reissued
+      const { headers } = await auth.api.disableTwoFactor({
+        body: { password: body.password },
+        headers: request.headers as unknown as Record<string, string>,
+        returnHeaders: true,
+      });
+
+      forwardAuthHeaders(headers, set);
+
+      return {
+        success: true,
+        message: 'Two-factor authentication disabled',
+      };
+    },
+    {
+      body: t.Object({
+        password: t.String(),
+      }),
+      response: {
+        200: messageOnlyEnvelope,
+        ...errorResponses(400, 401, 503),
+      },
+      detail: {
+        tags: ['Auth'],
+        summary: 'Disable two-factor authentication',
+        description: 'Remove the TOTP secret and backup codes. 400 invalid_password for a wrong password',
+      },
+    }
+  );
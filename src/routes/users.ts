@@ -1,8 +1,30 @@
 import { Elysia, t } from 'elysia';
-import { eq } from 'drizzle-orm';
-import { dbPrimary, dbReplica } from '../config/database';
-import { users } from '../db/schema';
-import { authMiddleware, UnauthorizedError } from '../middleware/auth';
+import { and, eq, isNotNull, isNull, sql } from 'drizzle-orm';
+import { getReadDatabase, recordSessionWrite, withTransaction } from '../config/database';
+import { posts, sessions, userRoles, users } from '../db/schema';
+import { authMiddleware, requirePermission, requireScope } from '../middleware/auth';
+import { ForbiddenError, NotFoundError, PreconditionFailedError, ValidationError } from '../lib/errors';
+import {
+  dataEnvelope,
+  errorResponses,
+  messageEnvelope,
+  messageOnlyEnvelope,
+  pageEnvelope,
+  revokedSessionsSchema,
+  userRoleSchema,
+  userSchema,
+} from '../lib/schemas';
+import { canActOn } from '../lib/permissions';
+import { matchesIfMatch, notModified, toETag } from '../lib/etag';
+import {
+  buildPage,
+  cursorKey,
+  decodeCursor,
+  keysetCondition,
+  keysetOrder,
+  paginationQuery,
+  whereAll,
+} from '../lib/pagination';
 
 /**
  * User routes with automatic read/write routing
@@ -19,51 +41,69 @@ export const userRoutes = new Elysia({ prefix: '/users' })
    */
   .get(
     '/',
-    async ({ query }) => {
-      try {
-        const limit = query.limit || 10;
-        const offset = query.offset || 0;
-
-        // Read from replica database
-        const userList = await dbReplica
-          .select({
-            id: users.id,
-            name: users.name,
-            email: users.email,
-            emailVerified: users.emailVerified,
-            image: users.image,
-            createdAt: users.createdAt,
-            updatedAt: users.updatedAt,
-          })
-          .from(users)
-          .limit(limit)
-          .offset(offset);
-
-        return {
-          success: true,
-          data: userList,
-          pagination: {
-            limit,
-            offset,
-          },
-        };
-      } catch (error) {
-        console.error('Error fetching users:', error);
-        return {
-          success: false,
-          message: 'Failed to fetch users',
-        };
+    async ({ query, session }) => {
+      const limit = query.limit || 10;
+      const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+
+      // Users are always listed newest first
+      if (query.cursor && cursor?.sort !== 'createdAt:desc') {
+        throw new ValidationError('Invalid cursor');
       }
+
+      if (cursor && query.offset !== undefined) {
+        throw new ValidationError('Use either cursor or offset, not both');
+      }
+
+      const offset = query.offset || 0;
+
+      // Read from replica database (primary if this session has unreplicated writes)
+      // Fetch one extra row to know whether another page exists
+      const db = await getReadDatabase(session.id);
+      const rows = await db
+        .select({
+          id: users.id,
+          name: users.name,
+          email: users.email,
+          emailVerified: users.emailVerified,
+          image: users.image,
+          role: users.role,
+          version: users.version,
+          createdAt: users.createdAt,
+          updatedAt: users.updatedAt,
+          cursorKey: cursorKey(users.createdAt),
+        })
+        .from(users)
+        .where(whereAll(isNull(users.deletedAt), keysetCondition(users.createdAt, users.id, cursor)))
+        .orderBy(...keysetOrder(users.createdAt, users.id, cursor))
+        .limit(limit + 1)
+        .offset(offset);
+
+      const page = buildPage(rows, limit, cursor, offset);
+      const total = query.includeTotal ? await db.$count(users, isNull(users.deletedAt)) : undefined;
+
+      return {
+        success: true,
+        data: page.items,
+        pagination: {
+          limit,
+          ...(!cursor && { offset }),
+          nextCursor: page.nextCursor,
+          prevCursor: page.prevCursor,
+          ...(total !== undefined && { total }),
+        },
+      };
     },
     {
-      query: t.Object({
-        limit: t.Optional(t.Number({ minimum: 1, maximum: 100 })),
-        offset: t.Optional(t.Number({ minimum: 0 })),
-      }),
+      beforeHandle: requireScope('users:read'),
+      query: t.Object(paginationQuery),
+      response: {
+        200: pageEnvelope(userSchema),
+        ...errorResponses(400, 401, 403, 503),
+      },
       detail: {
         tags: ['Users'],
         summary: 'List all users',
-        description: 'Get paginated list of users (uses replica database)',
+        description: 'Get paginated list of users, newest first, by cursor or offset (uses replica database)',
       },
     }
   )
@@ -74,52 +114,51 @@ export const userRoutes = new Elysia({ prefix: '/users' })
    */
   .get(
     '/:id',
-    async ({ params, set }) => {
-      try {
-        // Read from replica database
-        const [user] = await dbReplica
-          .select({
-            id: users.id,
-            name: users.name,
-            email: users.email,
-            emailVerified: users.emailVerified,
-            image: users.image,
-            createdAt: users.createdAt,
-            updatedAt: users.updatedAt,
-          })
-          .from(users)
-          .where(eq(users.id, params.id))
-          .limit(1);
+    async ({ params, session, set }) => {
+      // Read from replica database (primary if this session has unreplicated writes)
+      const db = await getReadDatabase(session.id);
+      const [user] = await db
+        .select({
+          id: users.id,
+          name: users.name,
+          email: users.email,
+          emailVerified: users.emailVerified,
+          image: users.image,
+          role: users.role,
+          version: users.version,
+          createdAt: users.createdAt,
+          updatedAt: users.updatedAt,
+        })
+        .from(users)
+        .where(and(eq(users.id, params.id), isNull(users.deletedAt)))
+        .limit(1);
 
-        if (!user) {
-          set.status = 404;
-          return {
-            success: false,
-            message: 'User not found',
-          };
-        }
-
-        return {
-          success: true,
-          data: user,
-        };
-      } catch (error) {
-        console.error('Error fetching user:', error);
-        set.status = 500;
-        return {
-          success: false,
-          message: 'Failed to fetch user',
-        };
+      if (!user) {
+        throw new NotFoundError('User not found');
       }
+
+      // Conditional GET: notModified answers 304 if the client's copy is current
+      set.headers['etag'] = toETag(user.version);
+
+      return {
+        success: true,
+        data: user,
+      };
     },
     {
+      beforeHandle: requireScope('users:read'),
+      mapResponse: notModified,
       params: t.Object({
         id: t.String({ format: 'uuid' }),
       }),
+      response: {
+        200: dataEnvelope(userSchema),
+        ...errorResponses(400, 401, 403, 404, 503),
+      },
       detail: {
         tags: ['Users'],
         summary: 'Get user by ID',
-        description: 'Get specific user by ID (uses replica database)',
+        description: 'Get specific user by ID with an ETag; honors If-None-Match (uses replica database)',
       },
     }
   )
@@ -130,10 +169,10 @@ export const userRoutes = new Elysia({ prefix: '/users' })
    */
   .post(
     '/',
-    async ({ body, set }) => {
-      try {
-        // Write to primary database
-        const [newUser] = await dbPrimary
+    async ({ body, session, set }) => {
+      // Write to primary database
+      const [newUser] = await withTransaction((tx) =>
+        tx
           .insert(users)
           .values({
             name: body.name,
@@ -147,32 +186,35 @@ export const userRoutes = new Elysia({ prefix: '/users' })
             email: users.email,
             emailVerified: users.emailVerified,
             image: users.image,
+            role: users.role,
+            version: users.version,
             createdAt: users.createdAt,
             updatedAt: users.updatedAt,
-          });
+          })
+      );
 
-        set.status = 201;
-        return {
-          success: true,
-          message: 'User created successfully',
-          data: newUser,
-        };
-      } catch (error) {
-        console.error('Error creating user:', error);
-        set.status = 400;
-        return {
-          success: false,
-          message: error instanceof Error ? error.message : 'Failed to create user',
-        };
-      }
+      await recordSessionWrite(session.id);
+
+      set.headers['etag'] = toETag(newUser.version);
+      set.status = 201;
+      return {
+        success: true,
+        message: 'User created successfully',
+        data: newUser,
+      };
     },
     {
+      beforeHandle: requireScope('users:write'),
       body: t.Object({
         name: t.String({ minLength: 2, maxLength: 255 }),
         email: t.String({ format: 'email', maxLength: 255 }),
         emailVerified: t.Optional(t.Boolean()),
         image: t.Optional(t.String()),
       }),
+      response: {
+        201: messageEnvelope(userSchema),
+        ...errorResponses(400, 401, 403, 409, 503),
+      },
       detail: {
         tags: ['Users'],
         summary: 'Create new user',
@@ -187,24 +229,36 @@ export const userRoutes = new Elysia({ prefix: '/users' })
    */
   .patch(
     '/:id',
-    async ({ params, body, set, user }) => {
-      try {
-        // Check if user is updating their own profile or has admin rights
-        // For now, users can only update their own profile
-        if (user.id !== params.id) {
-          set.status = 403;
-          return {
-            success: false,
-            message: 'You can only update your own profile',
-          };
+    async ({ params, body, request, set, user, session }) => {
+      // Users can update their own profile; others need users:update:any
+      if (!canActOn(user, params.id, 'users:update:any')) {
+        throw new ForbiddenError('You can only update your own profile');
+      }
+
+      // Lock the row so the version check and update see the same user
+      const updatedUser = await withTransaction(async (tx) => {
+        const [existingUser] = await tx
+          .select({ version: users.version })
+          .from(users)
+          .where(and(eq(users.id, params.id), isNull(users.deletedAt)))
+          .limit(1)
+          .for('update');
+
+        if (!existingUser) {
+          throw new NotFoundError('User not found');
+        }
+
+        // Optimistic concurrency: reject if the client's copy is stale
+        if (!matchesIfMatch(request.headers.get('if-match'), existingUser.version)) {
+          throw new PreconditionFailedError('User was modified by someone else; fetch it again and retry');
         }
 
-        // Write to primary database
-        const [updatedUser] = await dbPrimary
+        const [updated] = await tx
           .update(users)
           .set({
             ...(body.name && { name: body.name }),
             ...(body.image !== undefined && { image: body.image }),
+            version: sql`${users.version} + 1`,
             updatedAt: new Date(),
           })
           .where(eq(users.id, params.id))
@@ -214,33 +268,26 @@ export const userRoutes = new Elysia({ prefix: '/users' })
             email: users.email,
             emailVerified: users.emailVerified,
             image: users.image,
+            role: users.role,
+            version: users.version,
             createdAt: users.createdAt,
             updatedAt: users.updatedAt,
           });
 
-        if (!updatedUser) {
-          set.status = 404;
-          return {
-            success: false,
-            message: 'User not found',
-          };
-        }
+        return updated;
+      });
 
-        return {
-          success: true,
-          message: 'User updated successfully',
-          data: updatedUser,
-        };
-      } catch (error) {
-        console.error('Error updating user:', error);
-        set.status = 400;
-        return {
-          success: false,
-          message: error instanceof Error ? error.message : 'Failed to update user',
-        };
-      }
+      await recordSessionWrite(session.id);
+
+      set.headers['etag'] = toETag(updatedUser.version);
+      return {
+        success: true,
+        message: 'User updated successfully',
+        data: updatedUser,
+      };
     },
     {
+      beforeHandle: requireScope('users:write'),
       params: t.Object({
         id: t.String({ format: 'uuid' }),
       }),
@@ -248,101 +295,278 @@ export const userRoutes = new Elysia({ prefix: '/users' })
         name: t.Optional(t.String({ minLength: 2, maxLength: 255 })),
         image: t.Optional(t.String()),
       }),
+      response: {
+        200: messageEnvelope(userSchema),
+        ...errorResponses(400, 401, 403, 404, 412, 503),
+      },
       detail: {
         tags: ['Users'],
         summary: 'Update user',
-        description: 'Update user information (uses primary database)',
+        description: 'Update user information; honors If-Match (uses primary database)',
+      },
+    }
+  )
+
+  /**
+   * PATCH /users/:id/role
+   * Change a user's role (write to primary)
+   * Requires users:update:role permission
+   */
+  .patch(
+    '/:id/role',
+    async ({ params, body, request, set, session }) => {
+      // Lock the row so the version check and update see the same user
+      const updatedUser = await withTransaction(async (tx) => {
+        const [existingUser] = await tx
+          .select({ version: users.version })
+          .from(users)
+          .where(and(eq(users.id, params.id), isNull(users.deletedAt)))
+          .limit(1)
+          .for('update');
+
+        if (!existingUser) {
+          throw new NotFoundError('User not found');
+        }
+
+        // Optimistic concurrency: reject if the client's copy is stale
+        if (!matchesIfMatch(request.headers.get('if-match'), existingUser.version)) {
+          throw new PreconditionFailedError('User was modified by someone else; fetch it again and retry');
+        }
+
+        const [updated] = await tx
+          .update(users)
+          .set({
+            role: body.role,
+            version: sql`${users.version} + 1`,
+            updatedAt: new Date(),
+          })
+          .where(eq(users.id, params.id))
+          .returning({
+            id: users.id,
+            name: users.name,
+            email: users.email,
+            role: users.role,
+            version: users.version,
+            updatedAt: users.updatedAt,
+          });
+
+        return updated;
+      });
+
+      await recordSessionWrite(session.id);
+
+      set.headers['etag'] = toETag(updatedUser.version);
+      return {
+        success: true,
+        message: 'User role updated successfully',
+        data: updatedUser,
+      };
+    },
+    {
+      beforeHandle: [requireScope('users:write'), requirePermission('users:update:role')],
+      params: t.Object({
+        id: t.String({ format: 'uuid' }),
+      }),
+      body: t.Object({
+        role: t.UnionEnum(userRoles),
+      }),
+      response: {
+        200: messageEnvelope(userRoleSchema),
+        ...errorResponses(400, 401, 403, 404, 412, 503),
+      },
+      detail: {
+        tags: ['Users'],
+        summary: 'Update user role',
+        description: 'Change the role of a user, admin only; honors If-Match (uses primary database)',
       },
     }
   )
 
   /**
    * DELETE /users/:id
-   * Delete user by ID (write to primary)
+   * Soft delete user by ID (write to primary)
    */
   .delete(
     '/:id',
-    async ({ params, set, user }) => {
-      try {
-        // Check if user is deleting their own account or has admin rights
-        // For now, users can only delete their own account
-        if (user.id !== params.id) {
-          set.status = 403;
-          return {
-            success: false,
-            message: 'You can only delete your own account',
-          };
+    async ({ params, request, user, session }) => {
+      // Users can delete their own account; others need users:delete:any
+      if (!canActOn(user, params.id, 'users:delete:any')) {
+        throw new ForbiddenError('You can only delete your own account');
+      }
+
+      // Soft delete the user and their posts with the same timestamp so a restore
+      // brings back exactly those posts; sessions are revoked immediately
+      await withTransaction(async (tx) => {
+        const [existingUser] = await tx
+          .select({ version: users.version })
+          .from(users)
+          .where(and(eq(users.id, params.id), isNull(users.deletedAt)))
+          .limit(1)
+          .for('update');
+
+        if (!existingUser) {
+          throw new NotFoundError('User not found');
         }
 
-        // Write to primary database
-        const [deletedUser] = await dbPrimary
-          .delete(users)
-          .where(eq(users.id, params.id))
-          .returning({ id: users.id });
-
-        if (!deletedUser) {
-          set.status = 404;
-          return {
-            success: false,
-            message: 'User not found',
-          };
+        // Optimistic concurrency: reject if the client's copy is stale
+        if (!matchesIfMatch(request.headers.get('if-match'), existingUser.version)) {
+          throw new PreconditionFailedError('User was modified by someone else; fetch it again and retry');
         }
 
-        return {
-          success: true,
-          message: 'User deleted successfully',
-        };
-      } catch (error) {
-        console.error('Error deleting user:', error);
-        set.status = 400;
-        return {
-          success: false,
-          message: error instanceof Error ? error.message : 'Failed to delete user',
-        };
-      }
+        const deletedAt = new Date();
+        await tx
+          .update(users)
+          .set({ deletedAt, version: sql`${users.version} + 1` })
+          .where(eq(users.id, params.id));
+        await tx
+          .update(posts)
+          .set({ deletedAt, version: sql`${posts.version} + 1` })
+          .where(and(eq(posts.authorId, params.id), isNull(posts.deletedAt)));
+        await tx.delete(sessions).where(eq(sessions.userId, params.id));
+      });
+
+      await recordSessionWrite(session.id);
+
+      return {
+        success: true,
+        message: 'User deleted successfully',
+      };
     },
     {
+      beforeHandle: requireScope('users:write'),
       params: t.Object({
         id: t.String({ format: 'uuid' }),
       }),
+      response: {
+        200: messageOnlyEnvelope,
+        ...errorResponses(400, 401, 403, 404, 412, 503),
+      },
       detail: {
         tags: ['Users'],
         summary: 'Delete user',
-        description: 'Delete user account (uses primary database)',
+        description: 'Soft delete user account and its posts; restorable until purged. Honors If-Match (uses primary database)',
       },
     }
   )
 
-  // Error handler for user routes
-  .onError(({ code, error, set }) => {
-    if (error instanceof UnauthorizedError) {
-      set.status = 401;
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
+  /**
+   * POST /users/:id/restore
+   * Restore a soft-deleted user and the posts deleted with it (write to primary)
+   */
+  .post(
+    '/:id/restore',
+    async ({ params, session }) => {
+      const restoredUser = await withTransaction(async (tx) => {
+        const [deletedUser] = await tx
+          .select({ deletedAt: users.deletedAt })
+          .from(users)
+          .where(and(eq(users.id, params.id), isNotNull(users.deletedAt)))
+          .limit(1)
+          .for('update');
+
+        if (!deletedUser?.deletedAt) {
+          return undefined;
+        }
+
+        // Posts deleted individually before the account keep their own timestamp
+        await tx
+          .update(posts)
+          .set({ deletedAt: null, version: sql`${posts.version} + 1` })
+          .where(and(eq(posts.authorId, params.id), eq(posts.deletedAt, deletedUser.deletedAt)));
+
+        const [restored] = await tx
+          .update(users)
+          .set({ deletedAt: null, version: sql`${users.version} + 1` })
+          .where(eq(users.id, params.id))
+          .returning({
+            id: users.id,
+            name: users.name,
+            email: users.email,
+            emailVerified: users.emailVerified,
+            image: users.image,
+            role: users.role,
+            version: users.version,
+            createdAt: users.createdAt,
+            updatedAt: users.updatedAt,
+          });
+
+        return restored;
+      });
+
+      if (!restoredUser) {
+        throw new NotFoundError('Deleted user not found');
+      }
+
+      await recordSessionWrite(session.id);
 
-    if (code === 'VALIDATION') {
-      set.status = 400;
       return {
-        success: false,
-        message: 'Validation error',
-        error: error.message,
+        success: true,
+        message: 'User restored successfully',
+        data: restoredUser,
       };
+    },
+    {
+      // Admin only: a soft-deleted user cannot sign in to restore their own account
+      beforeHandle: [requireScope('users:write'), requirePermission('users:restore:any')],
+      params: t.Object({
+        id: t.String({ format: 'uuid' }),
+      }),
+      response: {
+        200: messageEnvelope(userSchema),
+        ...errorResponses(400, 401, 403, 404, 503),
+      },
+      detail: {
+        tags: ['Users'],
+        summary: 'Restore user',
+        description:
+          'Restore a soft-deleted user and its posts before they are purged. Admins only (users:restore:any); uses primary database',
+      },
     }
+  )
+
+  /**
+   * DELETE /users/:id/sessions
+   * Revoke all sessions of a user (write to primary)
+   * Admin only - requires sessions:revoke:any
+   */
+  .delete(
+    '/:id/sessions',
+    async ({ params, session }) => {
+      const revoked = await withTransaction(async (tx) => {
+        const [existingUser] = await tx
+          .select({ id: users.id })
+          .from(users)
+          .where(eq(users.id, params.id))
+          .limit(1);
+
+        if (!existingUser) {
+          throw new NotFoundError('User not found');
+        }
+
+        return tx.delete(sessions).where(eq(sessions.userId, params.id)).returning({ id: sessions.id });
+      });
+
+      await recordSessionWrite(session.id);
 
-    if (code === 'NOT_FOUND') {
-      set.status = 404;
       return {
-        success: false,
-        message: 'Route not found',
+        success: true,
+        message: 'User sessions revoked',
+        data: { revoked: revoked.length },
       };
+    },
+    {
+      beforeHandle: [requireScope('users:write'), requirePermission('sessions:revoke:any')],
+      params: t.Object({
+        id: t.String({ format: 'uuid' }),
+      }),
+      response: {
+        200: messageEnvelope(revokedSessionsSchema),
+        ...errorResponses(400, 401, 403, 404, 503),
+      },
+      detail: {
+        tags: ['Users'],
+        summary: 'Revoke user sessions',
+        description: 'Sign the user out on every device, including the caller if revoking their own (admin only, uses primary database)',
+      },
     }
-
-    set.status = 500;
-    return {
-      success: false,
-      message: 'Internal server error',
-    };
-  });
+  );
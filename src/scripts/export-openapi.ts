@@ -0,0 +1,30 @@
+import app from '../index';
+import { logConfig } from '../lib/logger';
+
+/**
+ * Export the OpenAPI document without starting the server
+ * Usage: bun run openapi:export [output file]   (stdout when omitted)
+ * Generating the document never opens a database connection
+ */
+const output = process.argv[2];
+
+// The document may go to stdout; keep info-level lines (the access log) out of it
+// Warnings and errors are written to stderr and still show up
+if (logConfig.level === 'debug' || logConfig.level === 'info') {
+  logConfig.level = 'warn';
+}
+
+const response = await app.handle(new Request('http://localhost/openapi.json'));
+if (!response.ok) {
+  console.error(`Failed to generate OpenAPI document (HTTP ${response.status})`);
+  process.exit(1);
+}
+
+const document = `${JSON.stringify(await response.json(), null, 2)}\n`;
+
+if (output) {
+  await Bun.write(output, document);
+  console.log(`OpenAPI document written to ${output}`);
+} else {
+  process.stdout.write(document);
+}
@@ -0,0 +1,175 @@
+import { createHash, createHmac, randomBytes } from 'node:crypto';
+
+/**
+ * Local OpenID Connect provider for development and tests
+ * Usage: bun run oidc:mock, then start the API with
+ *   OIDC_DISCOVERY_URL=http://localhost:4000/.well-known/openid-configuration
+ *   OIDC_CLIENT_ID=demo-client OIDC_CLIENT_SECRET=demo-secret
+ * /authorize approves immediately as MOCK_OIDC_EMAIL, or as `login_hint` when the
+ * authorization URL has one; ID tokens are HS256-signed with the client secret
+ */
+
+const port = Number(process.env.MOCK_OIDC_PORT) || 4000;
+const issuer = process.env.MOCK_OIDC_ISSUER || `http://localhost:${port}`;
+const clientId = process.env.OIDC_CLIENT_ID || 'demo-client';
+const clientSecret = process.env.OIDC_CLIENT_SECRET || 'demo-secret';
+const defaultEmail = process.env.MOCK_OIDC_EMAIL || 'oidc-user@example.com';
+
+interface Claims {
+  sub: string;
+  email: string;
+  email_verified: boolean;
+  name: string;
+}
+
+interface AuthorizationCode {
+  claims: Claims;
+  redirectUri: string;
+  codeChallenge: string | null;
+  nonce: string | null;
+  scope: string;
+  expiresAt: number;
+}
+
+const codes = new Map<string, AuthorizationCode>();
+const accessTokens = new Map<string, Claims>();
+
+// Stable subject per email, so repeated sign-ins map to the same account
+const claimsFor = (email: string): Claims => ({
+  sub: createHash('sha256').update(email).digest('hex').slice(0, 24),
+  email,
+  email_verified: true,
+  name: email.split('@')[0] ?? email,
+});
+
+const base64url = (value: string | Buffer) => Buffer.from(value).toString('base64url');
+
+const signIdToken = (claims: Claims, nonce: string | null): string => {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(
+    JSON.stringify({ ...claims, iss: issuer, aud: clientId, iat: now, exp: now + 3600, ...(nonce && { nonce }) })
+  );
+  const signature = createHmac('sha256', clientSecret).update(`${header}.${payload}`).digest('base64url');
+  return `${header}.${payload}.${signature}`;
+};
+
+const oauthError = (error: string, description: string, status = 400) =>
+  Response.json({ error, error_description: description }, { status });
+
+const discovery = () =>
+  Response.json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    userinfo_endpoint: `${issuer}/userinfo`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['HS256'],
+    scopes_supported: ['openid', 'email', 'profile'],
+    token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+    code_challenge_methods_supported: ['S256'],
+  });
+
+const authorize = (url: URL) => {
+  const params = url.searchParams;
+  const redirectUri = params.get('redirect_uri');
+
+  if (params.get('client_id') !== clientId) return oauthError('unauthorized_client', 'Unknown client_id');
+  if (!redirectUri) return oauthError('invalid_request', 'redirect_uri is required');
+  if (params.get('response_type') !== 'code') return oauthError('unsupported_response_type', 'Only code is supported');
+
+  const code = randomBytes(16).toString('hex');
+  codes.set(code, {
+    claims: claimsFor(params.get('login_hint') || defaultEmail),
+    redirectUri,
+    codeChallenge: params.get('code_challenge'),
+    nonce: params.get('nonce'),
+    scope: params.get('scope') || 'openid',
+    expiresAt: Date.now() + 60 * 1000,
+  });
+
+  const target = new URL(redirectUri);
+  target.searchParams.set('code', code);
+  target.searchParams.set('iss', issuer);
+  const state = params.get('state');
+  if (state) target.searchParams.set('state', state);
+
+  return Response.redirect(target.toString(), 302);
+};
+
+const token = async (request: Request) => {
+  const form = new URLSearchParams(await request.text());
+
+  // client_secret_basic or client_secret_post
+  const basic = request.headers.get('authorization')?.match(/^Basic (.+)$/)?.[1];
+  const [id, secret] = basic
+    ? Buffer.from(basic, 'base64').toString().split(':').map(decodeURIComponent)
+    : [form.get('client_id'), form.get('client_secret')];
+  if (id !== clientId || secret !== clientSecret) return oauthError('invalid_client', 'Bad client credentials', 401);
+
+  if (form.get('grant_type') !== 'authorization_code') return oauthError('unsupported_grant_type', 'Only authorization_code');
+
+  const code = form.get('code') ?? '';
+  const grant = codes.get(code);
+  codes.delete(code);
+  if (!grant || grant.expiresAt < Date.now()) return oauthError('invalid_grant', 'Unknown or expired code');
+  if (form.get('redirect_uri') !== grant.redirectUri) return oauthError('invalid_grant', 'redirect_uri mismatch');
+
+  if (grant.codeChallenge) {
+    const verifier = form.get('code_verifier') ?? '';
+    if (createHash('sha256').update(verifier).digest('base64url') !== grant.codeChallenge) {
+      return oauthError('invalid_grant', 'PKCE verification failed');
+    }
+  }
+
+  const accessToken = randomBytes(24).toString('hex');
+  accessTokens.set(accessToken, grant.claims);
+
+  return Response.json({
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: 3600,
+    scope: grant.scope,
+    id_token: signIdToken(grant.claims, grant.nonce),
+  });
+};
+
+const userinfo = (request: Request) => {
+  const accessToken = request.headers.get('authorization')?.replace(/^Bearer /, '') ?? '';
+  const claims = accessTokens.get(accessToken);
+  return claims ? Response.json(claims) : oauthError('invalid_token', 'Unknown access token', 401);
+};
+
+const server = Bun.serve({
+  port,
+  fetch(request) {
+    const url = new URL(request.url);
+
+    switch (`${request.method} ${url.pathname}`) {
+      case 'GET /.well-known/openid-configuration':
+        return discovery();
+      case 'GET /authorize':
+        return authorize(url);
+      case 'POST /token':
+        return token(request);
+      case 'GET /userinfo':
+        return userinfo(request);
+      case 'GET /jwks':
+        return Response.json({ keys: [] });
+      default:
+        return oauthError('not_found', `${request.method} ${url.pathname}`, 404);
+    }
+  },
+});
+
+console.log(`Mock OIDC provider listening on ${issuer} (client ${clientId})`);
+
+const shutdown = () => {
+  server.stop();
+  process.exit(0);
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
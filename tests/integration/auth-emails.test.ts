@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'bun:test';
+import { readOutbox } from '../../src/lib/mailer';
+import { databaseAvailable, readJson, request, uniqueEmail, waitFor } from '../helpers';
+
+const password = 'correct horse battery';
+
+/**
+ * Wait for the next email to `to` with the given subject and return the link it contains
+ */
+const linkFromEmail = async (to: string, subject: string): Promise<URL> => {
+  const message = await waitFor(async () => (await readOutbox(undefined, to)).find((mail) => mail.subject === subject));
+  const link = message.text.match(/https?:\/\/\S+/)?.[0];
+  expect(link).toBeDefined();
+  return new URL(link!);
+};
+
+const signUp = async (email: string) => {
+  const response = await request('/auth/signup', { method: 'POST', body: { email, password, name: 'Mail Test' } });
+  expect(response.status).toBe(200);
+};
+
+const login = (email: string, loginPassword: string) =>
+  request('/auth/login', { method: 'POST', body: { email, password: loginPassword } });
+
+describe.skipIf(!databaseAvailable)('auth emails (file outbox)', () => {
+  test('signup sends a verification email whose link verifies the address', async () => {
+    const email = uniqueEmail('verify');
+    await signUp(email);
+
+    const link = await linkFromEmail(email, 'Verify your email address');
+    expect(link.pathname).toBe('/auth/verify-email');
+
+    const verified = await request(`${link.pathname}${link.search}`);
+    expect(verified.status).toBe(200);
+
+    const loggedIn = await login(email, password);
+    expect(loggedIn.status).toBe(200);
+    const { data } = await readJson<{ data: { user: { emailVerified: boolean } } }>(loggedIn);
+    expect(data.user.emailVerified).toBe(true);
+  });
+
+  test('forgot-password sends a reset link whose token sets a new password', async () => {
+    const email = uniqueEmail('reset');
+    await signUp(email);
+
+    const requested = await request('/auth/forgot-password', { method: 'POST', body: { email } });
+    expect(requested.status).toBe(200);
+
+    const link = await linkFromEmail(email, 'Reset your password');
+    const token = link.searchParams.get('token');
+    expect(token).toBeTruthy();
+
+    const newPassword = 'a completely new password';
+    const reset = await request('/auth/reset-password', { method: 'POST', body: { token, newPassword } });
+    expect(reset.status).toBe(200);
+
+    expect((await login(email, password)).status).toBe(401);
+    expect((await login(email, newPassword)).status).toBe(200);
+
+    // Tokens work once
+    const reused = await request('/auth/reset-password', { method: 'POST', body: { token, newPassword: 'yet another password' } });
+    expect(reused.status).toBe(400);
+  });
+
+  test('forgot-password answers the same for unknown emails and sends nothing', async () => {
+    const email = uniqueEmail('unknown');
+
+    const response = await request('/auth/forgot-password', { method: 'POST', body: { email } });
+    expect(response.status).toBe(200);
+
+    await Bun.sleep(200);
+    expect(await readOutbox(undefined, email)).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import type { Subprocess } from 'bun';
+import { oauthRedirects } from '../../src/lib/auth';
+import { createCookieJar, databaseAvailable, readJson, request, uniqueEmail, waitFor, type CookieJar } from '../helpers';
+
+const discoveryUrl = process.env.OIDC_DISCOVERY_URL!;
+
+let provider: Subprocess | undefined;
+
+/**
+ * Run the sign-in flow as a browser would, signing in at the provider as `email`
+ * @returns Response of the app's OAuth callback
+ */
+const signInWithOidc = async (jar: CookieJar, email: string): Promise<Response> => {
+  const started = await request('/auth/sign-in/oidc', { method: 'POST', body: {}, jar });
+  expect(started.status).toBe(200);
+  const { data } = await readJson<{ data: { url: string } }>(started);
+
+  // The mock approves at once; login_hint picks the account
+  const authorizationUrl = new URL(data.url);
+  authorizationUrl.searchParams.set('login_hint', email);
+  const authorized = await fetch(authorizationUrl, { redirect: 'manual' });
+  expect(authorized.status).toBe(302);
+
+  const callback = new URL(authorized.headers.get('location')!);
+  expect(callback.pathname).toBe('/auth/oauth2/callback/oidc');
+  return request(`${callback.pathname}${callback.search}`, { jar });
+};
+
+const currentUser = async (jar: CookieJar) => {
+  const response = await request('/auth/me', { jar });
+  expect(response.status).toBe(200);
+  return (await readJson<{ data: { id: string; email: string; emailVerified: boolean } }>(response)).data;
+};
+
+describe.skipIf(!databaseAvailable)('OIDC sign-in (mock provider)', () => {
+  beforeAll(async () => {
+    // Same port and client credentials as the app (tests/setup.ts)
+    provider = Bun.spawn([process.execPath, 'src/scripts/mock-oidc.ts'], {
+      env: { ...process.env },
+      stdout: 'ignore',
+      stderr: 'inherit',
+    });
+    await waitFor(() => fetch(discoveryUrl).then((response) => (response.ok ? true : undefined), () => undefined));
+  });
+
+  afterAll(async () => {
+    provider?.kill();
+    await provider?.exited;
+  });
+
+  test('lists the provider as configured', async () => {
+    const response = await request('/auth/providers');
+    expect((await readJson<{ data: string[] }>(response)).data).toContain('oidc');
+  });
+
+  test('round trip creates the user and signs them in', async () => {
+    const jar = createCookieJar();
+    const email = uniqueEmail('oidc');
+
+    const callback = await signInWithOidc(jar, email);
+    expect(callback.status).toBe(302);
+    expect(callback.headers.get('location')).toBe(oauthRedirects.success);
+
+    const user = await currentUser(jar);
+    expect(user).toMatchObject({ email, emailVerified: true });
+  });
+
+  test('signing in again reuses the linked account', async () => {
+    const email = uniqueEmail('oidc-again');
+
+    const firstJar = createCookieJar();
+    await signInWithOidc(firstJar, email);
+    const first = await currentUser(firstJar);
+
+    const secondJar = createCookieJar();
+    await signInWithOidc(secondJar, email);
+    expect((await currentUser(secondJar)).id).toBe(first.id);
+  });
+
+  test('a callback with a forged state fails to the error URL without a session', async () => {
+    const jar = createCookieJar();
+    const started = await request('/auth/sign-in/oidc', { method: 'POST', body: {}, jar });
+    const { data } = await readJson<{ data: { url: string } }>(started);
+
+    const authorized = await fetch(data.url, { redirect: 'manual' });
+    const callback = new URL(authorized.headers.get('location')!);
+    callback.searchParams.set('state', 'forged');
+
+    const response = await request(`${callback.pathname}${callback.search}`, { jar });
+    expect(response.status).toBe(302);
+    expect(response.headers.get('location')).toStartWith(oauthRedirects.error);
+    expect((await request('/auth/me', { jar })).status).toBe(401);
+  });
+});
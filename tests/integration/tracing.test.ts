@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'bun:test';
+import { randomBytes } from 'node:crypto';
+import { readSpans, tracingConfig, type FileSpan } from '../../src/lib/tracing';
+import { databaseAvailable, request, waitFor } from '../helpers';
+
+const hex = (bytes: number) => randomBytes(bytes).toString('hex');
+
+/**
+ * Incoming W3C trace context, as an upstream service would send it
+ */
+const parentContext = () => {
+  const traceId = hex(16);
+  const spanId = hex(8);
+  return { traceId, spanId, traceparent: `00-${traceId}-${spanId}-01` };
+};
+
+/**
+ * Spans of one trace once one matching `predicate` has been written (spans end after the response)
+ */
+const spansOf = (traceId: string, predicate: (span: FileSpan) => boolean) =>
+  waitFor(async () => {
+    const spans = await readSpans(tracingConfig.file, traceId);
+    return spans.some(predicate) ? spans : undefined;
+  });
+
+describe('request tracing (file exporter)', () => {
+  test('writes a server span continuing the caller trace', async () => {
+    const parent = parentContext();
+    const response = await request('/health/live', { headers: { traceparent: parent.traceparent } });
+    expect(response.status).toBe(200);
+
+    const [span] = await spansOf(parent.traceId, (span) => span.kind === 'server');
+    expect(span).toMatchObject({
+      traceId: parent.traceId,
+      parentSpanId: parent.spanId,
+      name: 'GET /health/live',
+      kind: 'server',
+      status: { code: 'unset' },
+      attributes: {
+        'http.request.method': 'GET',
+        'http.route': '/health/live',
+        'url.path': '/health/live',
+        'http.response.status_code': 200,
+      },
+    });
+  });
+
+  test('starts a new trace without traceparent and names unmatched routes by method', async () => {
+    const before = new Set((await readSpans()).map((span) => span.spanId));
+    const response = await request('/no/such/route');
+    expect(response.status).toBe(404);
+
+    const span = await waitFor(async () =>
+      (await readSpans()).find((span) => !before.has(span.spanId) && span.attributes['url.path'] === '/no/such/route')
+    );
+    expect(span.name).toBe('GET');
+    expect(span.parentSpanId).toBeNull();
+    expect(span.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(span.attributes['http.response.status_code']).toBe(404);
+    // Client errors do not fail the span
+    expect(span.status.code).toBe('unset');
+  });
+
+  describe.skipIf(!databaseAvailable)('with a database', () => {
+    test('records queries as client spans under the request span', async () => {
+      const parent = parentContext();
+      const response = await request('/health/ready', { headers: { traceparent: parent.traceparent } });
+      expect(response.status).toBe(200);
+
+      const spans = await spansOf(parent.traceId, (span) => span.kind === 'server');
+      const server = spans.find((span) => span.kind === 'server')!;
+      const queries = spans.filter((span) => span.kind === 'client');
+
+      expect(queries.length).toBeGreaterThan(0);
+      for (const query of queries) {
+        expect(query.parentSpanId).toBe(server.spanId);
+        expect(query.name).toBe('SELECT');
+        expect(query.attributes).toMatchObject({
+          'db.system.name': 'postgresql',
+          'db.operation.name': 'SELECT',
+          'db.pool.role': 'primary',
+        });
+        expect(query.attributes['db.query.text']).toContain('pg_is_in_recovery()');
+      }
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { rmSync } from 'node:fs';
+
+/**
+ * Test environment (preloaded by bunfig.toml)
+ * Configuration is read when modules load, so everything the tests observe is set here
+ * The database comes from the usual DB_* variables; integration tests skip without one
+ */
+
+// Sent emails are read back from the file outbox
+process.env.MAIL_TRANSPORT = 'file';
+process.env.MAIL_OUTBOX_DIR = '.outbox/test';
+
+// Finished spans are read back from a JSON lines file
+process.env.OTEL_TRACES_EXPORTER = 'file';
+process.env.OTEL_TRACES_FILE = '.traces/test-spans.jsonl';
+
+// OIDC sign-in against the mock provider (src/scripts/mock-oidc.ts), started by the OIDC tests
+process.env.MOCK_OIDC_PORT ??= '4100';
+process.env.OIDC_DISCOVERY_URL = `http://localhost:${process.env.MOCK_OIDC_PORT}/.well-known/openid-configuration`;
+process.env.OIDC_CLIENT_ID = 'demo-client';
+process.env.OIDC_CLIENT_SECRET = 'demo-secret';
+
+// Errors only: expected 4xx responses would otherwise log a warning each
+process.env.LOG_LEVEL ??= 'error';
+
+rmSync(process.env.MAIL_OUTBOX_DIR, { recursive: true, force: true });
+rmSync(process.env.OTEL_TRACES_FILE, { force: true });
@@ -0,0 +1,69 @@
+import { describe, expect, test } from 'bun:test';
+import { createUnifiedDiff } from '../../src/lib/diff';
+
+const labels = { from: 'revision 1', to: 'current' };
+const lines = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+/**
+ * Replace the given 1-based lines of `base`
+ */
+const edit = (base: string[], ...lineNumbers: number[]) =>
+  base.map((line, i) => (lineNumbers.includes(i + 1) ? `${line} (edited)` : line));
+
+const hunkHeaders = (diff: string) => diff.split('\n').filter((line) => line.startsWith('@@'));
+
+describe('createUnifiedDiff', () => {
+  test('is empty for equal texts', () => {
+    expect(createUnifiedDiff('same\ntext', 'same\ntext', labels)).toBe('');
+  });
+
+  test('writes file headers and one hunk per change', () => {
+    const diff = createUnifiedDiff('a\nb\nc', 'a\nB\nc', labels);
+
+    expect(diff).toBe(['--- revision 1', '+++ current', '@@ -1,3 +1,3 @@', ' a', '-b', '+B', ' c'].join('\n'));
+  });
+
+  test('merges changes separated by up to 2 * context unchanged lines', () => {
+    const base = lines(15);
+
+    // Lines 4-9 unchanged: exactly 2 * 3, one hunk
+    expect(hunkHeaders(createUnifiedDiff(base.join('\n'), edit(base, 3, 10).join('\n'), labels))).toEqual([
+      '@@ -1,13 +1,13 @@',
+    ]);
+    // Lines 4-10 unchanged: the context windows no longer touch
+    expect(hunkHeaders(createUnifiedDiff(base.join('\n'), edit(base, 3, 11).join('\n'), labels))).toEqual([
+      '@@ -1,6 +1,6 @@',
+      '@@ -8,7 +8,7 @@',
+    ]);
+  });
+
+  test('honours a custom context size', () => {
+    const base = lines(10);
+    const diff = createUnifiedDiff(base.join('\n'), edit(base, 5).join('\n'), labels, 1);
+
+    expect(diff.split('\n').slice(2)).toEqual(['@@ -4,3 +4,3 @@', ' line 4', '-line 5', '+line 5 (edited)', ' line 6']);
+  });
+
+  test('treats empty text as zero lines', () => {
+    expect(createUnifiedDiff('', 'a\nb', labels).split('\n').slice(2)).toEqual(['@@ -0,0 +1,2 @@', '+a', '+b']);
+    expect(createUnifiedDiff('a', '', labels).split('\n').slice(2)).toEqual(['@@ -1,1 +0,0 @@', '-a']);
+  });
+
+  test('numbers pure insertions and deletions like diff -u', () => {
+    expect(hunkHeaders(createUnifiedDiff('a\nb\nc', 'a\nb\nx\nc', labels))).toEqual(['@@ -1,3 +1,4 @@']);
+    expect(hunkHeaders(createUnifiedDiff('a\nb\nc\nd\ne\nf\ng\nh', 'a\nb\nc\nd\ne\nf\ng', labels))).toEqual([
+      '@@ -5,4 +5,3 @@',
+    ]);
+  });
+
+  test('falls back to replacing the changed region when the LCS table would be too large', () => {
+    const oldText = lines(1200).join('\n');
+    const newText = lines(1200)
+      .map((line) => `${line}!`)
+      .join('\n');
+    const diff = createUnifiedDiff(oldText, newText, labels);
+
+    expect(hunkHeaders(diff)).toEqual(['@@ -1,1200 +1,1200 @@']);
+    expect(diff.split('\n').filter((line) => line.startsWith('-') && !line.startsWith('---'))).toHaveLength(1200);
+  });
+});
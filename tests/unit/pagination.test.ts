@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'bun:test';
+import { buildPage, decodeCursor, encodeCursor } from '../../src/lib/pagination';
+
+const id = (n: number) => `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`;
+const rows = (...ns: number[]) => ns.map((n) => ({ id: id(n), cursorKey: `2024-01-0${n} 00:00:00+00`, name: `row ${n}` }));
+const encodePayload = (payload: unknown) => Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+describe('cursor encoding', () => {
+  test('round-trips the boundary row, sort and direction', () => {
+    const key = '2024-05-01 12:34:56.123456+00';
+    const cursor = encodeCursor(key, id(1), 'createdAt:desc', 'prev');
+
+    expect(cursor).toMatch(/^[\w-]+$/);
+    expect(decodeCursor(cursor)).toEqual({ key, id: id(1), sort: 'createdAt:desc', direction: 'prev' });
+  });
+
+  test('rejects input that is not a cursor', () => {
+    expect(decodeCursor('not a cursor')).toBeNull();
+    expect(decodeCursor(Buffer.from('{"k":').toString('base64url'))).toBeNull();
+    expect(decodeCursor(encodePayload(null))).toBeNull();
+    expect(decodeCursor(encodePayload(['a', 'b']))).toBeNull();
+  });
+
+  test('rejects tampered payloads', () => {
+    const valid = { k: 'a', i: id(1), s: 'createdAt:desc', d: 'next' };
+
+    expect(decodeCursor(encodePayload(valid))).not.toBeNull();
+    // The id ends up in SQL as a uuid, so anything else is refused up front
+    expect(decodeCursor(encodePayload({ ...valid, i: "1' OR '1'='1" }))).toBeNull();
+    expect(decodeCursor(encodePayload({ ...valid, d: 'sideways' }))).toBeNull();
+    expect(decodeCursor(encodePayload({ ...valid, k: 42 }))).toBeNull();
+    expect(decodeCursor(encodePayload({ ...valid, s: undefined }))).toBeNull();
+  });
+});
+
+describe('buildPage', () => {
+  test('first page issues only a next cursor when more rows exist', () => {
+    const page = buildPage(rows(1, 2, 3), 2, null);
+
+    expect(page.items).toEqual([
+      { id: id(1), name: 'row 1' },
+      { id: id(2), name: 'row 2' },
+    ]);
+    expect(decodeCursor(page.nextCursor!)).toMatchObject({ id: id(2), direction: 'next' });
+    expect(page.prevCursor).toBeNull();
+  });
+
+  test('last page has no next cursor but links back', () => {
+    const cursor = decodeCursor(encodeCursor('k', id(2), 'createdAt:desc', 'next'));
+    const page = buildPage(rows(3), 2, cursor);
+
+    expect(page.nextCursor).toBeNull();
+    expect(decodeCursor(page.prevCursor!)).toMatchObject({ id: id(3), direction: 'prev' });
+  });
+
+  test('backward pages are flipped into display order', () => {
+    // Fetched in reverse order: nearest the cursor first, plus one extra row
+    const cursor = decodeCursor(encodeCursor('k', id(5), 'createdAt:desc', 'prev'));
+    const page = buildPage(rows(4, 3, 2), 2, cursor);
+
+    expect(page.items.map((item) => item.id)).toEqual([id(3), id(4)]);
+    expect(decodeCursor(page.prevCursor!)).toMatchObject({ id: id(3), direction: 'prev' });
+    expect(decodeCursor(page.nextCursor!)).toMatchObject({ id: id(4), direction: 'next' });
+  });
+
+  test('embeds the sort into issued cursors and issues none without one', () => {
+    const sorted = buildPage(rows(1, 2), 1, null, 0, 'title:asc');
+    expect(decodeCursor(sorted.nextCursor!)?.sort).toBe('title:asc');
+
+    const unsorted = buildPage(rows(1, 2), 1, null, 1, null);
+    expect(unsorted).toMatchObject({ nextCursor: null, prevCursor: null });
+  });
+
+  test('offset pages past the first link back', () => {
+    expect(buildPage(rows(1), 1, null, 10).prevCursor).not.toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, setSystemTime, test } from 'bun:test';
+import { TooManyRequestsError } from '../../src/lib/errors';
+import {
+  assertNotLockedOut,
+  clearLoginFailures,
+  consumeRateLimit,
+  rateLimitConfig,
+  recordLoginFailure,
+} from '../../src/lib/rate-limit';
+
+const minute = 60 * 1000;
+// Start of a one-minute window (and of a lockout window)
+const { windowMs: lockoutWindowMs } = rateLimitConfig.lockout;
+const windowStart = Math.ceil(Date.UTC(2030, 0, 1) / lockoutWindowMs) * lockoutWindowMs;
+
+// Counters are kept per process; every test uses its own name or email
+const unique = () => crypto.randomUUID();
+
+const hit = (name: string, at: number) => {
+  setSystemTime(new Date(at));
+  return consumeRateLimit(name, '203.0.113.7', 3, minute);
+};
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe('consumeRateLimit', () => {
+  test('allows `limit` hits per window and then limits', async () => {
+    const name = unique();
+
+    expect((await hit(name, windowStart)).remaining).toBe(2);
+    expect((await hit(name, windowStart)).remaining).toBe(1);
+    expect(await hit(name, windowStart)).toMatchObject({ limited: false, remaining: 0, reset: 60, retryAfter: 0 });
+
+    // 4 hits in this window: they become the previous window and must decay to 3 in the next one
+    expect(await hit(name, windowStart)).toMatchObject({ limited: true, remaining: 0, retryAfter: 75 });
+  });
+
+  test('weights the previous window by how much of it still overlaps', async () => {
+    const name = unique();
+    for (let i = 0; i < 4; i++) await hit(name, windowStart);
+
+    // Halfway through the next window: 4 * 0.5 = 2 carried over, room for one more hit
+    const halfway = windowStart + 1.5 * minute;
+    expect(await hit(name, halfway)).toMatchObject({ limited: false, remaining: 0, reset: 30 });
+
+    // 2 + 2 > 3 until the carried-over share drops to 1, a quarter window later
+    expect(await hit(name, halfway)).toMatchObject({ limited: true, retryAfter: 15 });
+  });
+
+  test('forgets hits once they are two windows old', async () => {
+    const name = unique();
+    for (let i = 0; i < 5; i++) await hit(name, windowStart);
+
+    expect(await hit(name, windowStart + 2 * minute)).toMatchObject({ limited: false, remaining: 2 });
+  });
+
+  test('counts identifiers separately', async () => {
+    const name = unique();
+    for (let i = 0; i < 4; i++) await hit(name, windowStart);
+
+    setSystemTime(new Date(windowStart));
+    expect((await consumeRateLimit(name, '198.51.100.1', 3, minute)).limited).toBe(false);
+  });
+});
+
+describe('login lockout', () => {
+  const { maxFailures, windowMs } = rateLimitConfig.lockout;
+
+  const failLogins = async (email: string, count: number) => {
+    for (let i = 0; i < count; i++) await recordLoginFailure(email);
+  };
+
+  test('locks the account from the maxFailures-th failure on', async () => {
+    setSystemTime(new Date(windowStart));
+    const email = `${unique()}@example.com`;
+
+    await failLogins(email, maxFailures - 1);
+    await expect(assertNotLockedOut(email)).resolves.toBeUndefined();
+
+    await recordLoginFailure(email);
+    const error = await assertNotLockedOut(email).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(TooManyRequestsError);
+    expect(error).toMatchObject({ status: 429, code: 'account_locked' });
+    // Failures are counted per email, whatever its case
+    await expect(assertNotLockedOut(email.toUpperCase())).rejects.toBeInstanceOf(TooManyRequestsError);
+  });
+
+  test('unlocks once the failures have decayed', async () => {
+    setSystemTime(new Date(windowStart));
+    const email = `${unique()}@example.com`;
+    await failLogins(email, maxFailures);
+
+    const error = (await assertNotLockedOut(email).catch((caught: unknown) => caught)) as TooManyRequestsError;
+    expect(error.retryAfter).toBeGreaterThan(windowMs / 1000);
+
+    // Retry-After is exact: locked one second before it, open from it on
+    setSystemTime(new Date(windowStart + (error.retryAfter - 1) * 1000));
+    await expect(assertNotLockedOut(email)).rejects.toBeInstanceOf(TooManyRequestsError);
+
+    setSystemTime(new Date(windowStart + error.retryAfter * 1000));
+    await expect(assertNotLockedOut(email)).resolves.toBeUndefined();
+  });
+
+  test('clearLoginFailures lifts the lock immediately', async () => {
+    setSystemTime(new Date(windowStart));
+    const email = `${unique()}@example.com`;
+    await failLogins(email, maxFailures);
+
+    await clearLoginFailures(email);
+    await expect(assertNotLockedOut(email)).resolves.toBeUndefined();
+  });
+});